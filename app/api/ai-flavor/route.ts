@@ -0,0 +1,57 @@
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { createApiResponse, createErrorResponse } from '@/lib/utils';
+import { detectAiFlavor } from '@/lib/ai-flavor';
+
+/**
+ * AI味检测API
+ *
+ * 功能：
+ * - 按本地规则给文本的AI味打分（0-100，越高越像机器写的），不调用模型
+ * - 检测模板连接词、高频开头套话、重复句式、段落长度过于整齐、emoji 过密
+ * - 返回各项问题及命中位置，用于在结果页行内高亮
+ *
+ * 请求体：
+ * - text: 必填，待检测的文本（通常为正文）
+ *
+ * 路由：POST /api/ai-flavor
+ */
+export async function POST(request: Request) {
+  try {
+    const { text } = await request.json();
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST, 'text 不能为空');
+    }
+    if (text.length > CONFIG.MAX_AI_FLAVOR_LENGTH) {
+      return createErrorResponse('Text too long', HTTP_STATUS.BAD_REQUEST, `文本不能超过 ${CONFIG.MAX_AI_FLAVOR_LENGTH} 字`);
+    }
+
+    return createApiResponse({ success: true, ...detectAiFlavor(text) });
+
+  } catch (error) {
+    console.error('Error in ai-flavor:', error);
+    return createErrorResponse(
+      'Failed to detect AI flavor',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
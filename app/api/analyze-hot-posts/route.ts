@@ -1,9 +1,12 @@
-import { XhsNoteItem, XhsApiResponse, ProcessedNote } from '@/lib/types';
-import { getAnalysisPrompt } from '@/lib/prompts';
+import { XhsNoteItem, XhsApiResponse, ProcessedNote, HotPostAnalysis } from '@/lib/types';
 import { ERROR_MESSAGES, CONFIG, API_ENDPOINTS, XHS_CONFIG, HTTP_STATUS } from '@/lib/constants';
 import { generateTraceId, createApiResponse, createErrorResponse, getEnvVar } from '@/lib/utils';
 import { getCacheData, saveCacheData, getFallbackCacheData } from '@/lib/cache-manager';
-import { aiManager } from '@/lib/ai-manager';
+import { getHotPostAnalysis } from '@/lib/hot-posts';
+import { withHotPostsRecordReplay } from '@/lib/ai-recorder';
+import { CancelledError, throwIfCancelled } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import type { UsageRecord } from '@/lib/usage-tracker';
 
 // 调试日志控制
 const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
@@ -11,7 +14,8 @@ const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
 // AI交互现在通过aiManager统一管理
 
 // 智能数据获取函数 - 优先使用缓存，失败时降级到备用缓存
-async function fetchHotPostsWithCache(keyword: string): Promise<string> {
+// 请求被取消时抛出 CancelledError，不再降级到备用缓存
+async function fetchHotPostsWithCache(keyword: string, signal?: AbortSignal): Promise<string> {
   const cacheEnabled = process.env.ENABLE_CACHE !== 'false';
   if (debugLoggingEnabled) {
     console.log(`🔍 开始获取关键词"${keyword}"的热门笔记数据 (缓存: ${cacheEnabled ? '启用' : '禁用'})`);
@@ -28,12 +32,16 @@ async function fetchHotPostsWithCache(keyword: string): Promise<string> {
 
   // 2. 尝试爬取新数据
   try {
-    const scrapedData = await scrapeHotPosts(keyword);
+    // 录制回放模式下按关键词保存/回放抓取结果，回放时不访问网络
+    const scrapedData = await withHotPostsRecordReplay('xhs-api', keyword, () => scrapeHotPosts(keyword, signal), signal);
     if (debugLoggingEnabled) {
       console.log(`✅ 爬取成功: ${keyword}`);
     }
     return scrapedData;
   } catch (scrapeError) {
+    if (scrapeError instanceof CancelledError) {
+      throw scrapeError;
+    }
     console.warn(`⚠️ 爬取失败: ${scrapeError instanceof Error ? scrapeError.message : '未知错误'}`);
 
     // 3. 爬取失败，尝试使用同分类的备用缓存
@@ -51,7 +59,7 @@ async function fetchHotPostsWithCache(keyword: string): Promise<string> {
 }
 
 // 实际的爬取函数
-async function scrapeHotPosts(keyword: string): Promise<string> {
+async function scrapeHotPosts(keyword: string, signal?: AbortSignal): Promise<string> {
   const cookie = getEnvVar('XHS_COOKIE');
   if (!cookie) {
     throw new Error(ERROR_MESSAGES.XHS_COOKIE_NOT_CONFIGURED);
@@ -97,9 +105,11 @@ async function scrapeHotPosts(keyword: string): Promise<string> {
         image_formats: ["jpg", "webp", "avif"]
       };
 
-      // 创建AbortController用于超时控制
+      // 创建AbortController用于超时控制，客户端断开时同样中止
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), CONFIG.REQUEST_TIMEOUT);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort);
 
       try {
         const response = await fetch(apiUrl, {
@@ -126,10 +136,15 @@ async function scrapeHotPosts(keyword: string): Promise<string> {
         };
       } catch (error) {
         clearTimeout(timeoutId);
+        if (signal?.aborted) {
+          throw new CancelledError();
+        }
         if (error instanceof Error && error.name === 'AbortError') {
           throw new Error('请求超时');
         }
         throw error;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
       }
     };
 
@@ -160,6 +175,7 @@ async function scrapeHotPosts(keyword: string): Promise<string> {
     const targetCount = CONFIG.TARGET_NOTES_COUNT;
 
     while (allNotes.length < targetCount && currentPage <= CONFIG.MAX_PAGES) { // 最多获取指定页数，避免无限循环
+      throwIfCancelled(signal);
       const response = await fetchNotesPage(currentPage);
 
       // 检查响应状态
@@ -272,6 +288,9 @@ async function scrapeHotPosts(keyword: string): Promise<string> {
     return result;
 
   } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
     console.error('Error fetching hot posts:', error);
     // 抓取失败直接抛出错误，不使用模拟数据
     throw new Error(`${ERROR_MESSAGES.FETCH_HOT_POSTS_ERROR}: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -279,6 +298,10 @@ async function scrapeHotPosts(keyword: string): Promise<string> {
 }
 
 
+// 分析结果摘要
+function buildAnalysisSummary(keyword: string, analysis: HotPostAnalysis): string {
+  return `基于${keyword}热门笔记的深度分析，提取了${analysis.titleFormulas.suggestedFormulas.length}个标题公式、${analysis.contentStructure.openingHooks.length}种开头方式、${analysis.coverStyleAnalysis.commonStyles.length}种封面风格等实用策略。`;
+}
 
 export async function POST(request: Request) {
   // 记录请求开始时间，用于计算剩余执行时间
@@ -286,7 +309,7 @@ export async function POST(request: Request) {
   const getRemainingBudget = () => CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime);
 
   try {
-    const { keyword } = await request.json();
+    const { keyword, priority } = await request.json();
 
     if (!keyword) {
       return createErrorResponse('Keyword is required', HTTP_STATUS.BAD_REQUEST);
@@ -294,49 +317,44 @@ export async function POST(request: Request) {
 
 
 
-    // 智能获取热门笔记数据（缓存优先）
-    const scrapedContent = await fetchHotPostsWithCache(keyword);
-
-    // 简化内容处理，只处理可能破坏提示词结构的字符
-    let safeContent = scrapedContent
-      .replace(/```/g, '´´´')  // 转义代码块标记，防止破坏Markdown结构
-      .trim(); // 移除首尾空白字符
-
-    // 限制内容长度，防止提示词过长导致AI响应异常
-    const MAX_CONTENT_LENGTH = 8000; // 约8000字符，为提示词留出足够空间
-    if (safeContent.length > MAX_CONTENT_LENGTH) {
-      safeContent = safeContent.substring(0, MAX_CONTENT_LENGTH) + '\n\n[内容因长度限制被截断...]';
-      if (debugLoggingEnabled) {
-        console.log(`⚠️ 内容过长已截断: ${scrapedContent.length} -> ${safeContent.length} 字符`);
-      }
-    }
-
-    // 使用模块化的分析提示词
-    const analysisPrompt = getAnalysisPrompt(safeContent);
+    // 智能获取热门笔记数据（缓存优先），客户端断开时中止抓取
+    const scrapedContent = await fetchHotPostsWithCache(keyword, request.signal);
 
-    // 使用AI管理器进行分析（带重试机制）
     // 传入剩余执行时间预算，确保不超过 Vercel 限制
     const remainingForAI = getRemainingBudget();
     if (debugLoggingEnabled) {
       console.log(`⏱️ AI 分析剩余时间预算: ${Math.round(remainingForAI / 1000)}s`);
     }
 
-    const analysisResult = await aiManager.analyzeWithRetry(
-      analysisPrompt,
-      ['titleFormulas', 'contentStructure', 'tagStrategy', 'coverStyleAnalysis'],
-      remainingForAI
-    );
+    // 与生成接口共用爆款分析：笔记数据未变化时复用分析缓存，此时不产生调用，usage 为空
+    let usage: UsageRecord | null = null;
+    const analysisResult = await getHotPostAnalysis(keyword, scrapedContent, {
+      route: 'analyze-hot-posts',
+      remainingForAI,
+      priority: parseRequestPriority(priority),
+      signal: request.signal,
+      onUsage: record => { usage = record; }
+    });
+    if (!analysisResult) {
+      return createErrorResponse('Failed to analyze hot posts', HTTP_STATUS.INTERNAL_SERVER_ERROR, '爆款分析失败，请稍后重试');
+    }
 
     return createApiResponse({
       success: true,
       keyword,
       // 直接返回完整的分析结果
       analysis: analysisResult,
-      summary: `基于${keyword}热门笔记的深度分析，提取了${analysisResult.titleFormulas?.suggestedFormulas?.length || 0}个标题公式、${analysisResult.contentStructure?.openingHooks?.length || 0}种开头方式、${analysisResult.coverStyleAnalysis?.commonStyles?.length || 0}种封面风格等实用策略。`,
-      raw_data: scrapedContent
+      summary: buildAnalysisSummary(keyword, analysisResult),
+      raw_data: scrapedContent,
+      usage,
+      cached: usage === null
     });
 
   } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 热门笔记分析已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
     console.error('Error in analyze-hot-posts:', error);
     return createErrorResponse(
       'Failed to analyze hot posts',
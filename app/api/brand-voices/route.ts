@@ -0,0 +1,175 @@
+import { createApiResponse, createErrorResponse } from '@/lib/utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import {
+  listBrandVoices,
+  getBrandVoice,
+  createBrandVoice,
+  updateBrandVoice,
+  deleteBrandVoice,
+  BrandVoiceStoreResult
+} from '@/lib/brand-voice';
+
+/**
+ * 品牌口吻API
+ *
+ * 功能：
+ * - GET /api/brand-voices - 查询所有品牌口吻或指定品牌口吻
+ * - POST /api/brand-voices - 新增品牌口吻
+ * - PUT /api/brand-voices - 修改品牌口吻（未提供的字段保持不变）
+ * - DELETE /api/brand-voices - 删除品牌口吻
+ *
+ * 生成接口通过 brandVoiceId 使用品牌口吻
+ *
+ * 路由：GET/POST/PUT/DELETE /api/brand-voices
+ */
+
+// 把存储操作的失败原因映射为 HTTP 状态码
+function createStoreErrorResponse(result: Extract<BrandVoiceStoreResult<unknown>, { ok: false }>): Response {
+  const status = result.reason === 'not_found'
+    ? HTTP_STATUS.NOT_FOUND
+    : result.reason === 'conflict' ? HTTP_STATUS.CONFLICT : HTTP_STATUS.BAD_REQUEST;
+  return createErrorResponse('Invalid brand voice', status, result.errors.join('; '));
+}
+
+/**
+ * 获取品牌口吻
+ *
+ * 查询参数：
+ * - id: 可选，只返回指定品牌口吻
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const profile = await getBrandVoice(id);
+      if (!profile) {
+        return createErrorResponse('Brand voice not found', HTTP_STATUS.NOT_FOUND, `品牌口吻不存在: ${id}`);
+      }
+      return createApiResponse({ success: true, brandVoice: profile });
+    }
+
+    const profiles = await listBrandVoices();
+    return createApiResponse({ success: true, total: profiles.length, brandVoices: profiles });
+
+  } catch (error) {
+    console.error('获取品牌口吻失败:', error);
+    return createErrorResponse(
+      'Failed to list brand voices',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 新增品牌口吻
+ *
+ * 请求体：id、name 必填；selfReference、signaturePhrases、forbiddenWords、emojiPolicy、productNames、notes 可选
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return createErrorResponse('Invalid request body', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const result = await createBrandVoice(body);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🏷️ 已新增品牌口吻: ${result.data.id} (${result.data.name})`);
+    return createApiResponse({ success: true, brandVoice: result.data });
+
+  } catch (error) {
+    console.error('新增品牌口吻失败:', error);
+    return createErrorResponse(
+      'Failed to create brand voice',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 修改品牌口吻
+ *
+ * 请求体：
+ * - id: 必填，要修改的品牌口吻
+ * - 其余字段: 可选，提供的字段会整体替换原值
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return createErrorResponse('Missing brand voice id', HTTP_STATUS.BAD_REQUEST, '请求体需要包含 id');
+    }
+
+    const result = await updateBrandVoice(body.id, body);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🏷️ 已更新品牌口吻: ${body.id}`);
+    return createApiResponse({ success: true, brandVoice: result.data });
+
+  } catch (error) {
+    console.error('更新品牌口吻失败:', error);
+    return createErrorResponse(
+      'Failed to update brand voice',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 删除品牌口吻
+ *
+ * 请求体：
+ * - id: 必填，要删除的品牌口吻
+ */
+export async function DELETE(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return createErrorResponse('Missing brand voice id', HTTP_STATUS.BAD_REQUEST, '请求体需要包含 id');
+    }
+
+    const result = await deleteBrandVoice(body.id);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🗑️ 已删除品牌口吻: ${body.id}`);
+    return createApiResponse({ success: true, id: body.id });
+
+  } catch (error) {
+    console.error('删除品牌口吻失败:', error);
+    return createErrorResponse(
+      'Failed to delete brand voice',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -124,6 +124,7 @@ export async function GET(request: Request) {
           isExpired,
           size: Math.round(stats.size / 1024), // KB
           metadata: cacheData.metadata,
+          hasAnalysis: !!cacheData.analysis,
         });
 
         totalSize += stats.size;
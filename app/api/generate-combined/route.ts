@@ -3,80 +3,34 @@ import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
 import { aiManager } from '@/lib/ai-manager';
 import { filterSensitiveContent, detectSensitiveWords } from '@/lib/sensitive-words';
 import { sanitizeText } from '@/lib/utils';
-import { getCacheData, saveCacheData } from '@/lib/cache-manager';
-import { fetchHotPostsViaMCP } from '@/lib/mcp-client';
-import { createRandomGenerationStyleConfig } from '@/lib/generation-variants';
+import { fetchHotPostsWithCache } from '@/lib/hot-posts';
+import { createGenerationStyleConfig, createDistinctGenerationStyleConfigs, parseStyleOverrides, GenerationStyleConfig } from '@/lib/generation-variants';
+import { createSeededRandom, generateSeed, isValidSeed, GenerationSeed } from '@/lib/seeded-random';
+import { pickTemperature, resolveTaskConfig } from '@/lib/ai-tasks';
+import { loadVariantPool } from '@/lib/custom-variants';
+import { getBrandVoice, checkBrandVoice, BrandVoiceProfile } from '@/lib/brand-voice';
+import { getSeriesPlan, getSeriesBriefContext, markSeriesBriefGenerated, SeriesBriefContext } from '@/lib/series-planner';
+import { DEFAULT_PLATFORM, PLATFORM_IDS, PlatformId, isPlatformId } from '@/lib/platforms';
+import { isKeywordMemoryEnabled, getKeywordMemory, getRecentOutputs, checkSimilarity, recordKeywordOutputs, KeywordMemoryEntry, RecentOutputs } from '@/lib/keyword-memory';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority, RequestPriority } from '@/lib/concurrency-limiter';
+import { SectionStreamParser, SectionEvent, RegenerableSection } from '@/lib/content-parser';
+import { validateGeneratedContent, repairGeneratedContent, FormatCheckResult } from '@/lib/format-validator';
+import type { GeneratedContent } from '@/lib/types';
 
 // 调试日志控制
 const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
 
-// 智能数据获取函数 - 优先使用缓存，失败时降级到备用缓存
-async function fetchHotPostsWithCache(keyword: string): Promise<string | null> {
-  const scrapingEnabled = process.env.ENABLE_SCRAPING !== 'false';
-
-  // 如果爬取功能被禁用，直接返回 null，不使用任何缓存
-  if (!scrapingEnabled) {
-    if (debugLoggingEnabled) {
-      console.log(`⏭️ 爬取功能已禁用（ENABLE_SCRAPING=false），跳过所有数据获取`);
-    }
-    return null;
-  }
-
-  const cacheEnabled = process.env.ENABLE_CACHE !== 'false';
-  if (debugLoggingEnabled) {
-    console.log(`🔍 开始获取关键词"${keyword}"的热门笔记数据 (缓存: ${cacheEnabled ? '启用' : '禁用'})`);
-  }
-
-  // 1. 首先尝试读取有效缓存（如果启用）
-  const cachedData = await getCacheData(keyword);
-  if (cachedData) {
-    if (debugLoggingEnabled) {
-      console.log(`✅ 使用缓存数据: ${keyword} (${cachedData.processedNotes.length}条笔记)`);
-    }
-    return cachedData.data;
-  }
-
-  // 2. 尝试爬取新数据
-  try {
-    const scrapedData = await scrapeHotPosts(keyword);
-    if (debugLoggingEnabled) {
-      console.log(`✅ 爬取成功: ${keyword}`);
-    }
-    return scrapedData;
-  } catch (scrapeError) {
-    console.warn(`⚠️ 爬取失败: ${scrapeError instanceof Error ? scrapeError.message : '未知错误'}`);
-
-    // 爬取失败：直接降级到无数据模式继续生成（避免同分类fallback导致的同质化/错配）
-    console.warn(`⚠️ 所有数据获取方式都失败，降级到无数据模式继续生成`);
-    return null;
-  }
-}
-
-// 实际的数据获取函数（通过 MCP 代理获取）
-async function scrapeHotPosts(keyword: string): Promise<string> {
-  try {
-    const { summary, notes } = await fetchHotPostsViaMCP(keyword);
-
-    // 保存到缓存（如果启用）
-    try {
-      await saveCacheData(keyword, summary, notes, 'scraped');
-    } catch (cacheError) {
-      console.warn('保存缓存失败:', cacheError);
-    }
-
-    return summary;
-  } catch (error) {
-    console.error('通过MCP获取热门笔记失败:', error);
-    throw new Error(`${ERROR_MESSAGES.FETCH_HOT_POSTS_ERROR}: ${error instanceof Error ? error.message : '未知错误'}`);
-  }
-}
-
 // 创建带参考数据的提示词（当有小红书热门笔记数据时）
 function createPromptWithReference(
   scrapedContent: string,
   user_info: string,
   keyword: string,
-  styleConfig: ReturnType<typeof createRandomGenerationStyleConfig>
+  styleConfig: ReturnType<typeof createGenerationStyleConfig>,
+  brandVoice: BrandVoiceProfile | null,
+  series: SeriesBriefContext | null,
+  recentOutputs: RecentOutputs | null,
+  platform: PlatformId
 ): string {
   // 简化内容处理，只处理可能破坏提示词结构的字符
   let safeContent = scrapedContent
@@ -104,14 +58,18 @@ ${safeContent}
   `;
 
   // 使用统一的生成提示词函数，确保策略完全一致
-  return getGenerationPrompt(hotPostRules, user_info, keyword, styleConfig);
+  return getGenerationPrompt(hotPostRules, user_info, keyword, styleConfig, brandVoice, series, recentOutputs, platform);
 }
 
 // 创建不带参考数据的提示词（当爬取功能被禁用时）
 function createPromptWithoutReference(
   user_info: string,
   keyword: string,
-  styleConfig: ReturnType<typeof createRandomGenerationStyleConfig>
+  styleConfig: ReturnType<typeof createGenerationStyleConfig>,
+  brandVoice: BrandVoiceProfile | null,
+  series: SeriesBriefContext | null,
+  recentOutputs: RecentOutputs | null,
+  platform: PlatformId
 ): string {
   // 构建一个说明性的"规律"部分，告知 AI 没有参考数据
   const hotPostRules = `
@@ -126,7 +84,223 @@ function createPromptWithoutReference(
   `;
 
   // 使用完全相同的生成提示词函数，确保 AI 处理策略一致
-  return getGenerationPrompt(hotPostRules, user_info, keyword, styleConfig);
+  return getGenerationPrompt(hotPostRules, user_info, keyword, styleConfig, brandVoice, series, recentOutputs, platform);
+}
+
+// 本次生成的元数据：种子、写作配置和温度，用同样的种子和参数可复现同样的配置
+function buildRunMeta(seed: GenerationSeed, styleConfig: GenerationStyleConfig, temperature: number, platform: PlatformId) {
+  return {
+    seed,
+    platform,
+    temperature,
+    style: {
+      variantId: styleConfig.variant.id,
+      variantLabel: styleConfig.variant.label,
+      opening: styleConfig.opening,
+      ending: styleConfig.ending,
+      depthModules: styleConfig.depthModules,
+      emojiDensity: styleConfig.variant.emojiDensity,
+      nonce: styleConfig.nonce
+    }
+  };
+}
+
+// 单篇笔记流式生成的参数
+interface StreamGenerationOptions {
+  prompt: string;
+  keyword: string;
+  userInfo: string;
+  platform: PlatformId;
+  remainingForAI: number;
+  priority: RequestPriority;
+  temperature: number;
+  brandVoice: BrandVoiceProfile | null;
+  // 格式校验未通过时是否让模型修复违规的分段
+  repairFormat: boolean;
+  // 同一关键词的近期生成记录，用于相似度检查；未启用关键词内容记忆时为 null
+  keywordMemory: KeywordMemoryEntry[] | null;
+  signal: AbortSignal;
+  // 推送一条 SSE 事件（多候选时由调用方附加候选编号）
+  send: (payload: Record<string, unknown>) => void;
+}
+
+// 流式生成一篇笔记：跳过正式内容之前的前置文字、过滤敏感词、增量解析分段
+// 返回结构化结果，失败时返回 null（出错时已推送 error 事件）
+async function streamGeneration({ prompt, keyword, userInfo, platform, remainingForAI, priority, temperature, brandVoice, repairFormat, keywordMemory, signal, send }: StreamGenerationOptions): Promise<GeneratedContent | null> {
+  const startTime = Date.now();
+  // 内容清洗标志位
+  let contentStarted = false;
+  const startMarker = "## 1."; // 从第1部分开始，现在直接是标题创作
+  let accumulatedContent = ""; // 累积内容，用于检测开始标记
+  let succeeded = true;
+
+  // 服务端增量解析各分段，推送 section_start / section_delta / section_end 事件
+  const sectionParser = new SectionStreamParser();
+  const sendSectionEvents = (events: SectionEvent[]) => {
+    for (const { type, ...payload } of events) {
+      send({ [type]: payload });
+    }
+  };
+
+  await aiManager.generateStreamWithRetry(
+    prompt,
+    // onChunk: 处理每个内容块
+    (content: string) => {
+      // 第一步：净化文本，移除潜在的零宽字符等水印
+      let cleanContent = sanitizeText(content);
+
+      // 后续所有操作都使用净化后的 cleanContent
+      accumulatedContent += cleanContent;
+      let chunkToSend = cleanContent;
+
+      // 如果内容尚未开始，检查当前累积内容是否包含开始标记
+      if (!contentStarted) {
+        const startIndex = accumulatedContent.indexOf(startMarker);
+        if (startIndex !== -1) {
+          // 找到了开始标记，说明正式内容开始了
+          contentStarted = true;
+          // 计算在当前chunk中的相对位置
+          const chunkStartIndex = startIndex - (accumulatedContent.length - content.length);
+          if (chunkStartIndex >= 0) {
+            // 开始标记在当前chunk中，只发送从标记开始的部分
+            chunkToSend = content.substring(chunkStartIndex);
+          } else {
+            // 开始标记在之前的chunk中，发送完整的当前chunk
+            chunkToSend = content;
+          }
+
+          console.log('🎯 检测到内容开始标记，开始发送内容');
+        } else {
+          // 没找到开始标记，且内容未开始，忽略这个块
+          console.log('⏭️ 跳过前置内容:', content.substring(0, 50) + '...');
+          return;
+        }
+      }
+
+      // 敏感词过滤处理
+      if (contentStarted && chunkToSend) {
+        // 1. 先检测敏感词
+        const detection = detectSensitiveWords(chunkToSend);
+
+        // 2. 如果检测到，只打印一次简洁的日志
+        if (detection.hasSensitiveWords) {
+          console.warn(`🚨 在当前数据块中检测到敏感词: [${detection.detectedWords.join(', ')}]，已自动处理。`);
+          // 3. 然后进行过滤
+          chunkToSend = filterSensitiveContent(chunkToSend, 'replace');
+        }
+
+        // 4. 发送处理后的内容
+        send({ content: chunkToSend });
+        sendSectionEvents(sectionParser.push(chunkToSend));
+      }
+    },
+    // onError: 处理错误
+    (error: Error) => {
+      succeeded = false;
+      // 客户端已断开，无需也无法再推送
+      if (error instanceof CancelledError) {
+        console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}: ${keyword}`);
+        return;
+      }
+      console.error('Stream error:', error);
+      send({ error: error.message });
+    },
+    // 传入剩余执行时间预算
+    remainingForAI,
+    {
+      // 生成任务的模型链和温度按任务路由配置，温度在范围内随机抖动以提升表达多样性
+      task: 'generation',
+      route: 'generate-combined',
+      // 温度已由请求指定或按种子抖动得出
+      temperature,
+      // 页面请求传 interactive，未指定时按批量请求排队
+      priority,
+      // 模型并发已满时推送排队位置
+      onQueue: (queue) => {
+        send({ queue });
+      },
+      // 将本次调用的用量推送给客户端，便于按请求核算成本
+      onUsage: (usage) => {
+        send({ usage });
+      },
+      // 断流重试后模型从头重写：清空清洗状态，并通知客户端丢弃已显示的内容
+      onReset: () => {
+        contentStarted = false;
+        accumulatedContent = "";
+        sectionParser.reset();
+        send({ reset: true });
+      },
+      signal
+    }
+  );
+
+  if (!succeeded || signal.aborted) {
+    return null;
+  }
+
+  // 结束最后一个分段，并推送完整的结构化结果
+  sendSectionEvents(sectionParser.finish());
+  let result = sectionParser.getContent();
+
+  // 格式校验：按目标平台的要求检查标题、正文、标签等；开启修复时只重写违规的分段
+  let formatReport = validateGeneratedContent(result, platform);
+  let repairedSections: RegenerableSection[] = [];
+  if (repairFormat && !formatReport.passed) {
+    try {
+      const repaired = await repairGeneratedContent(result, formatReport, {
+        keyword,
+        userInfo,
+        platform,
+        route: 'generate-combined',
+        remainingForAI: remainingForAI - (Date.now() - startTime),
+        priority,
+        signal,
+        onUsage: (usage) => {
+          send({ usage });
+        }
+      });
+      result = repaired.content;
+      repairedSections = repaired.repairedSections;
+      formatReport = validateGeneratedContent(result, platform);
+    } catch (error) {
+      if (error instanceof CancelledError || signal.aborted) {
+        console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}: ${keyword}`);
+        return null;
+      }
+      // 修复失败不影响已生成的内容，保留原文并返回校验结果
+      console.warn('格式修复失败，保留原内容:', error);
+    }
+  }
+  if (!formatReport.passed) {
+    console.warn(`📏 格式校验未通过: ${formatReport.violations.map(violation => violation.message).join('; ')}`);
+  }
+  const formatCheck: FormatCheckResult = { ...formatReport, repairedSections };
+  send({ format_check: formatCheck });
+
+  // 品牌口吻检查：与敏感词一样只提示不阻断，禁用词和不规范的产品写法交给人工确认
+  if (brandVoice) {
+    const brandCheck = checkBrandVoice(result, brandVoice);
+    if (!brandCheck.passed) {
+      console.warn(`🏷️ 品牌口吻检查未通过 (${brandVoice.id}): 禁用词 [${brandCheck.forbiddenWords.join(', ')}]，产品写法 [${brandCheck.productNaming.map(item => item.alias).join(', ')}]`);
+    }
+    send({ brand_check: brandCheck });
+  }
+
+  // 相似度检查：与同一关键词的近期内容比较开头、标题和正文指纹，按配置只提示或丢弃结果
+  if (keywordMemory) {
+    const similarityCheck = checkSimilarity(result, keywordMemory);
+    send({ similarity_check: similarityCheck });
+    if (!similarityCheck.passed) {
+      console.warn(`🔁 与近期内容相似度 ${similarityCheck.score} 达到阈值 ${similarityCheck.threshold}: ${keyword}`);
+      if (similarityCheck.action === 'reject') {
+        send({ error: `${ERROR_MESSAGES.CONTENT_TOO_SIMILAR}（相似度 ${similarityCheck.score}）` });
+        return null;
+      }
+    }
+  }
+
+  send({ result });
+  return result;
 }
 
 export async function POST(request: Request) {
@@ -134,13 +308,60 @@ export async function POST(request: Request) {
   const requestStartTime = Date.now();
   const getRemainingBudget = () => CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime);
 
+  // 客户端断开（请求中止或响应流被取消）时中止所有上游调用，避免继续消耗 token
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+  const signal = abortController.signal;
+
   try {
-    const { keyword, user_info } = await request.json();
+    const body = await request.json();
+    const { priority, candidates, temperature, seed, brandVoiceId, seriesId, briefIndex, repairFormat, platform = DEFAULT_PLATFORM } = body;
+
+    if (!isPlatformId(platform)) {
+      return new Response(`platform 必须是 ${PLATFORM_IDS.join(' / ')} 之一`, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+
+    // 生成系列中的某一篇（见 /api/plan-series）：关键词和素材默认沿用规划时的输入
+    const seriesPlan = seriesId ? await getSeriesPlan(String(seriesId)) : null;
+    if (seriesId && !seriesPlan) {
+      return new Response(`系列规划不存在: ${seriesId}`, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+    const series = seriesPlan ? getSeriesBriefContext(seriesPlan, Number(briefIndex)) : null;
+    if (seriesPlan && !series) {
+      return new Response(`briefIndex 必须是 0-${seriesPlan.briefs.length - 1} 之间的整数`, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+    const keyword = body.keyword || seriesPlan?.keyword;
+    const user_info = body.user_info || seriesPlan?.userInfo;
 
     if (!user_info || !keyword) {
       return new Response(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, { status: HTTP_STATUS.BAD_REQUEST });
     }
 
+    // 随机池包含内置变体和自定义变体，按各自的启用状态和权重选取
+    const variantPool = await loadVariantPool();
+
+    // 显式指定的写作配置必须来自配置池（见 /api/variants），未指定的部分仍随机选取
+    // 系列中的某一篇默认使用简报中的写作变体（变体已被删除时随机选取）
+    const styleInput = series && body.variantId === undefined && variantPool.getById(series.brief.variantId)
+      ? { ...body, variantId: series.brief.variantId }
+      : body;
+    const styleOverrides = parseStyleOverrides(styleInput, variantPool);
+    if (!styleOverrides.isValid) {
+      return new Response(styleOverrides.errors.join('; '), { status: HTTP_STATUS.BAD_REQUEST });
+    }
+    if (temperature !== undefined && (typeof temperature !== 'number' || temperature < CONFIG.MIN_TEMPERATURE || temperature > CONFIG.MAX_TEMPERATURE)) {
+      return new Response(`temperature 必须是 ${CONFIG.MIN_TEMPERATURE}-${CONFIG.MAX_TEMPERATURE} 之间的数字`, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return new Response('seed 必须是整数或不超过 64 个字符的字符串', { status: HTTP_STATUS.BAD_REQUEST });
+    }
+
+    // 品牌口吻作为额外约束注入提示词，生成后检查禁用词和产品写法
+    const brandVoice = brandVoiceId ? await getBrandVoice(String(brandVoiceId)) : null;
+    if (brandVoiceId && !brandVoice) {
+      return new Response(`品牌口吻不存在: ${brandVoiceId}`, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+
     // 添加调试日志，验证数据传递
     if (debugLoggingEnabled) {
       console.log('🔍 generate-combined 接收到的数据:');
@@ -149,30 +370,47 @@ export async function POST(request: Request) {
       console.log('📝 user_info 前100字符:', user_info?.substring(0, 100) || '空');
     }
 
+    // 候选数量：默认 1；多候选时共用同一份参考数据，各自使用不同的写作变体并行生成
+    const candidateCount = Math.min(Math.max(Math.floor(Number(candidates)) || 1, 1), CONFIG.MAX_CANDIDATES);
+
+    // 写作配置和温度抖动都由种子驱动：未指定种子时随机生成一个，并随元数据返回以便复现
+    const effectiveSeed: GenerationSeed = seed ?? generateSeed();
+    const random = createSeededRandom(effectiveSeed);
+
     // 为本次请求生成“随机写作配置”，用于降低同质化（同一关键词也会不同写法）
-    const styleConfig = createRandomGenerationStyleConfig();
+    const styleConfigs = candidateCount > 1
+      ? createDistinctGenerationStyleConfigs(candidateCount, styleOverrides.overrides, random, variantPool)
+      : [createGenerationStyleConfig(styleOverrides.overrides, random, variantPool)];
+    const generationTemperature = resolveTaskConfig('generation').temperature;
+    const temperatures = styleConfigs.map(() => temperature ?? pickTemperature(generationTemperature, random));
 
     // 第一步：获取热门笔记数据（如果爬取功能启用）
-    const scrapedContent = await fetchHotPostsWithCache(keyword);
+    const scrapedContent = await fetchHotPostsWithCache(keyword, signal);
 
-    // 第二步：根据是否有参考数据，创建不同的提示词
-    const combinedPrompt = scrapedContent
-      ? createPromptWithReference(scrapedContent, user_info, keyword, styleConfig)
-      : createPromptWithoutReference(user_info, keyword, styleConfig);
+    // 同一关键词近期用过的开头和标题注入提示词，生成后再与近期内容比较相似度
+    const keywordMemory = isKeywordMemoryEnabled() ? await getKeywordMemory(keyword) : null;
+    const recentOutputs = keywordMemory ? getRecentOutputs(keywordMemory) : null;
+
+    // 第二步：根据是否有参考数据，为每个候选创建不同的提示词
+    const prompts = styleConfigs.map(styleConfig => scrapedContent
+      ? createPromptWithReference(scrapedContent, user_info, keyword, styleConfig, brandVoice, series, recentOutputs, platform)
+      : createPromptWithoutReference(user_info, keyword, styleConfig, brandVoice, series, recentOutputs, platform));
 
     if (debugLoggingEnabled) {
-      console.log(`📝 使用${scrapedContent ? '有参考数据' : '无参考数据'}模式生成内容`);
-      console.log(`🎛️ 写作变体: ${styleConfig.variant.id} (${styleConfig.variant.label})`);
+      console.log(`📝 使用${scrapedContent ? '有参考数据' : '无参考数据'}模式生成${platform}内容`);
+      console.log(`🎛️ 写作变体: ${styleConfigs.map(config => `${config.variant.id} (${config.variant.label})`).join(', ')}，种子: ${effectiveSeed}`);
     }
 
     // 创建流式响应
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
+      cancel() {
+        abortController.abort();
+      },
       async start(controller) {
-        // 内容清洗标志位
-        let contentStarted = false;
-        const startMarker = "## 1."; // 从第1部分开始，现在直接是标题创作
-        let accumulatedContent = ""; // 累积内容，用于检测开始标记
+        const send = (payload: Record<string, unknown>) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
 
         // 使用AI管理器的流式生成（带重试机制）
         // 传入剩余执行时间预算，确保不超过 Vercel 限制
@@ -181,78 +419,64 @@ export async function POST(request: Request) {
           console.log(`⏱️ AI 流式生成剩余时间预算: ${Math.round(remainingForAI / 1000)}s`);
         }
 
-        // 生成温度做随机抖动：在不改变“基于素材”的前提下，提升表达多样性
-        const genTemperature =
-          CONFIG.GEN_TEMPERATURE_MIN +
-          Math.random() * (CONFIG.GEN_TEMPERATURE_MAX - CONFIG.GEN_TEMPERATURE_MIN);
+        const streamOptions = {
+          keyword,
+          userInfo: user_info,
+          platform,
+          remainingForAI,
+          priority: parseRequestPriority(priority),
+          brandVoice,
+          repairFormat: repairFormat === true,
+          keywordMemory,
+          signal
+        };
+
+        let results: Array<GeneratedContent | null>;
+        if (candidateCount === 1) {
+          send({ meta: buildRunMeta(effectiveSeed, styleConfigs[0], temperatures[0], platform) });
+          results = [await streamGeneration({ ...streamOptions, prompt: prompts[0], temperature: temperatures[0], send })];
+          if (signal.aborted) {
+            return;
+          }
+        } else {
+          // 先告知各候选使用的写作变体，之后每个事件都带上候选编号；单个候选失败不影响其他候选
+          send({
+            candidates: styleConfigs.map((styleConfig, index) => ({
+              id: index,
+              variant: { id: styleConfig.variant.id, label: styleConfig.variant.label }
+            }))
+          });
+          styleConfigs.forEach((styleConfig, index) => {
+            send({ candidate: index, meta: buildRunMeta(effectiveSeed, styleConfig, temperatures[index], platform) });
+          });
+          results = await Promise.all(prompts.map((prompt, index) => streamGeneration({
+            ...streamOptions,
+            prompt,
+            temperature: temperatures[index],
+            send: payload => send({ candidate: index, ...payload })
+          })));
+          if (signal.aborted) {
+            return;
+          }
+        }
 
-        if (debugLoggingEnabled) {
-          console.log(`🌡️ 本次生成温度: ${genTemperature.toFixed(2)}`);
+        // 记录本次生成的内容，之后同一关键词的请求避开这些开头和标题
+        const generated = results.filter((result): result is GeneratedContent => !!result);
+        if (keywordMemory && generated.length > 0) {
+          await recordKeywordOutputs(keyword, generated)
+            .catch(error => console.warn('记录关键词内容记忆失败:', error));
         }
 
-        await aiManager.generateStreamWithRetry(
-          combinedPrompt,
-          // onChunk: 处理每个内容块
-          (content: string) => {
-            // 第一步：净化文本，移除潜在的零宽字符等水印
-            let cleanContent = sanitizeText(content);
-
-            // 后续所有操作都使用净化后的 cleanContent
-            accumulatedContent += cleanContent;
-            let chunkToSend = cleanContent;
-
-            // 如果内容尚未开始，检查当前累积内容是否包含开始标记
-            if (!contentStarted) {
-              const startIndex = accumulatedContent.indexOf(startMarker);
-              if (startIndex !== -1) {
-                // 找到了开始标记，说明正式内容开始了
-                contentStarted = true;
-                // 计算在当前chunk中的相对位置
-                const chunkStartIndex = startIndex - (accumulatedContent.length - content.length);
-                if (chunkStartIndex >= 0) {
-                  // 开始标记在当前chunk中，只发送从标记开始的部分
-                  chunkToSend = content.substring(chunkStartIndex);
-                } else {
-                  // 开始标记在之前的chunk中，发送完整的当前chunk
-                  chunkToSend = content;
-                }
-
-                console.log('🎯 检测到内容开始标记，开始发送内容');
-              } else {
-                // 没找到开始标记，且内容未开始，忽略这个块
-                console.log('⏭️ 跳过前置内容:', content.substring(0, 50) + '...');
-                return;
-              }
-            }
-
-            // 敏感词过滤处理
-            if (contentStarted && chunkToSend) {
-              // 1. 先检测敏感词
-              const detection = detectSensitiveWords(chunkToSend);
-
-              // 2. 如果检测到，只打印一次简洁的日志
-              if (detection.hasSensitiveWords) {
-                console.warn(`🚨 在当前数据块中检测到敏感词: [${detection.detectedWords.join(', ')}]，已自动处理。`);
-                // 3. 然后进行过滤
-                chunkToSend = filterSensitiveContent(chunkToSend, 'replace');
-              }
-
-              // 4. 发送处理后的内容
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: chunkToSend })}\n\n`));
-            }
-          },
-          // onError: 处理错误
-          (error: Error) => {
-            console.error('Stream error:', error);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: error.message })}\n\n`));
-            controller.close();
-          },
-          // 传入剩余执行时间预算
-          remainingForAI,
-          { temperature: genTemperature }
-        );
+        // 记录系列中这一篇已生成，之后生成其他篇时避开这些标题
+        if (series) {
+          const titles = results.flatMap(result => result ? [result.titles] : []);
+          if (titles.length > 0) {
+            await markSeriesBriefGenerated(String(seriesId), series.brief.index, titles)
+              .catch(error => console.warn('记录系列生成状态失败:', error));
+          }
+        }
 
-        // 生成完成
+        // 生成结束：失败时 error 事件已推送，同样以 [DONE] 结束，客户端据此判断流是否完整
         controller.enqueue(encoder.encode('data: [DONE]\n\n'));
         controller.close();
       }
@@ -275,6 +499,10 @@ export async function POST(request: Request) {
     });
 
   } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}（获取热门笔记阶段）`);
+      return new Response(ERROR_MESSAGES.GENERATION_CANCELLED, { status: HTTP_STATUS.CLIENT_CLOSED_REQUEST });
+    }
     console.error('Error in generate-combined:', error);
     return new Response(ERROR_MESSAGES.SERVER_ERROR, { status: HTTP_STATUS.INTERNAL_SERVER_ERROR });
   }
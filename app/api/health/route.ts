@@ -1,6 +1,11 @@
 import { createApiResponse, createErrorResponse } from '@/lib/utils';
-import { HTTP_STATUS } from '@/lib/constants';
+import { HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { parseModelChain, isProviderConfigured } from '@/lib/ai-providers';
 import { CACHE_CONFIG } from '@/lib/cache-manager';
+import { getRecordMode } from '@/lib/ai-recorder';
+import { AI_TASK_NAMES, resolveTaskConfig } from '@/lib/ai-tasks';
+import { concurrencyLimiter } from '@/lib/concurrency-limiter';
+import { circuitBreaker, isCircuitBreakerEnabled, CIRCUIT_BREAKER_CONFIG } from '@/lib/circuit-breaker';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -10,7 +15,7 @@ import path from 'path';
  * 功能：
  * - 检查服务状态
  * - 检查环境变量配置
- * - 检查AI模型配置
+ * - 检查AI模型配置及熔断状态
  * - 检查缓存系统状态
  * 
  * 路由：GET /api/health
@@ -20,9 +25,34 @@ export async function GET() {
   try {
     const startTime = Date.now();
 
+    // 模型链可以跨多个提供方，逐项检查对应提供方是否已配置
+    // 回放模式下直接读取录制的夹具，不需要配置模型服务
+    const recordMode = getRecordMode();
+    const modelChain = parseModelChain(process.env.AI_MODEL_NAME || CONFIG.DEFAULT_AI_MODEL).map(entry => ({
+      ...entry,
+      configured: recordMode === 'replay' || isProviderConfigured(entry.provider),
+      breaker: circuitBreaker.getSnapshot(entry.name),
+    }));
+
+    // 各任务的模型路由（任务可配置独立的模型链，未配置时沿用 AI_MODEL_NAME）
+    const taskConfigs = AI_TASK_NAMES.map(task => resolveTaskConfig(task));
+    const taskRoutes = taskConfigs.map(taskConfig => ({
+      task: taskConfig.task,
+      models: taskConfig.models.map(entry => entry.name),
+      temperature: taskConfig.temperature,
+      timeout: taskConfig.timeout,
+      maxRetries: taskConfig.maxRetries,
+      configured: recordMode === 'replay' || taskConfig.models.some(entry => isProviderConfigured(entry.provider)),
+    }));
+
+    // 熔断中的模型（含任务专用模型链中的模型）
+    const allModelNames = new Set<string>(modelChain.map(entry => entry.name));
+    taskConfigs.forEach(taskConfig => taskConfig.models.forEach(entry => allModelNames.add(entry.name)));
+    const openModels = Array.from(allModelNames).filter(name => circuitBreaker.getSnapshot(name).state === 'open');
+
     // 1. 检查环境变量配置
     const envCheck = {
-      aiConfigured: !!process.env.THIRD_PARTY_API_URL && !!process.env.THIRD_PARTY_API_KEY,
+      aiConfigured: modelChain.some(entry => entry.configured) && taskRoutes.every(route => route.configured),
       xhsCookieConfigured: !!process.env.XHS_COOKIE,
       cacheEnabled: process.env.ENABLE_CACHE !== 'false',
       scrapingEnabled: process.env.ENABLE_SCRAPING !== 'false',
@@ -32,8 +62,20 @@ export async function GET() {
 
     // 2. 检查AI模型配置
     const modelConfig = {
-      models: process.env.AI_MODEL_NAME?.split(',').map(m => m.trim()) || [],
+      models: modelChain.map(entry => entry.name),
+      chain: modelChain,
+      tasks: taskRoutes,
       apiUrl: process.env.THIRD_PARTY_API_URL ? '已配置' : '未配置',
+      recordMode,
+      circuitBreaker: {
+        enabled: isCircuitBreakerEnabled(),
+        failureThreshold: CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD,
+        failureWindowMs: CIRCUIT_BREAKER_CONFIG.FAILURE_WINDOW_MS,
+        cooldownMs: CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS,
+        openModels,
+      },
+      // 各模型当前并发数和排队深度（只包含本实例调用过的模型）
+      concurrency: concurrencyLimiter.getStats(),
     };
 
     // 3. 检查缓存系统状态
@@ -82,8 +124,9 @@ export async function GET() {
     // 5. 计算响应时间
     const responseTime = Date.now() - startTime;
 
-    // 6. 判断整体健康状态
+    // 6. 判断整体健康状态（有模型熔断时视为降级）
     const isHealthy = envCheck.aiConfigured && 
+                     openModels.length === 0 &&
                      (envCheck.scrapingEnabled ? envCheck.xhsCookieConfigured : true);
 
     const response = {
@@ -96,7 +139,9 @@ export async function GET() {
       cache: cacheStatus,
       system: systemInfo,
       checks: {
-        aiService: envCheck.aiConfigured ? '✅ 正常' : '❌ 未配置',
+        aiService: !envCheck.aiConfigured
+          ? '❌ 未配置'
+          : (openModels.length > 0 ? `⚠️ 熔断中: ${openModels.join(', ')}` : '✅ 正常'),
         xhsService: envCheck.scrapingEnabled 
           ? (envCheck.xhsCookieConfigured ? '✅ 正常' : '⚠️ 未配置')
           : '⏭️ 已禁用',
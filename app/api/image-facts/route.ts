@@ -0,0 +1,171 @@
+import { getImageFactsPrompt } from '@/lib/prompts';
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { aiManager } from '@/lib/ai-manager';
+import { createApiResponse, createErrorResponse, sanitizeText } from '@/lib/utils';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import {
+  IMAGE_FACTS_CONFIG,
+  IMAGE_FACTS_SCHEMA,
+  ImageFacts,
+  formatImageFacts,
+  normalizeImageFacts,
+  parseImageDataUrl
+} from '@/lib/image-facts';
+import type { ImageInput } from '@/lib/ai-providers';
+import type { UsageRecord } from '@/lib/usage-tracker';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+/**
+ * 按字节上限读取请求体，超出上限时停止读取并返回 null
+ * 请求头声明的长度超限时直接拒绝，没有声明长度（分块传输）时边读边计数
+ */
+async function readBodyWithLimit(request: Request, maxBytes: number): Promise<string | null> {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return '';
+  }
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * 图片素材识别API
+ *
+ * 功能：
+ * - 把产品图、包装图交给图片识别任务（vision）的模型，只提取图上可见的事实
+ * - 返回结构化的事实和整理好的素材文本，供用户核对修改后填入 user_info
+ *
+ * 请求体：
+ * - images: 必填，图片 data URL 数组（jpeg / png / webp，最多 4 张）
+ * - keyword: 可选，主题关键词，帮助模型理解图片内容
+ * - priority: 可选，interactive / batch
+ * 请求体超过 IMAGE_FACTS_CONFIG.MAX_BODY_BYTES（约 16MB）时返回 413，不是合法 JSON 时返回 400
+ *
+ * 路由：POST /api/image-facts
+ */
+export async function POST(request: Request) {
+  try {
+    const rawBody = await readBodyWithLimit(request, IMAGE_FACTS_CONFIG.MAX_BODY_BYTES);
+    if (rawBody === null) {
+      return createErrorResponse(
+        'Request body too large',
+        HTTP_STATUS.PAYLOAD_TOO_LARGE,
+        `请求体不能超过 ${Math.round(IMAGE_FACTS_CONFIG.MAX_BODY_BYTES / 1024 / 1024)}MB`
+      );
+    }
+
+    let body: { images?: unknown; keyword?: unknown; priority?: unknown } | null = null;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      // 交给下方的统一校验返回 400
+    }
+    if (!body || typeof body !== 'object') {
+      return createErrorResponse('Invalid request body', HTTP_STATUS.BAD_REQUEST, '请求体必须是 JSON 对象');
+    }
+    const { images, keyword, priority } = body;
+
+    if (!Array.isArray(images) || images.length === 0) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST, 'images 不能为空');
+    }
+    if (images.length > IMAGE_FACTS_CONFIG.MAX_IMAGES) {
+      return createErrorResponse('Too many images', HTTP_STATUS.BAD_REQUEST, `一次最多识别 ${IMAGE_FACTS_CONFIG.MAX_IMAGES} 张图片`);
+    }
+
+    const inputs: ImageInput[] = [];
+    for (let i = 0; i < images.length; i++) {
+      const parsed = parseImageDataUrl(images[i]);
+      if (!parsed.ok) {
+        return createErrorResponse('Invalid image', HTTP_STATUS.BAD_REQUEST, `第 ${i + 1} 张图片无效: ${parsed.error}`);
+      }
+      inputs.push(parsed.image);
+    }
+
+    const usage: UsageRecord[] = [];
+    const topic = typeof keyword === 'string' && keyword.trim() ? keyword.trim() : undefined;
+
+    if (debugLoggingEnabled) {
+      console.log(`🖼️ 图片素材识别: ${inputs.length} 张图片${topic ? `，关键词 ${topic}` : ''}`);
+    }
+
+    const output = await aiManager.analyzeWithRetry<ImageFacts>(
+      getImageFactsPrompt(inputs.length, topic),
+      IMAGE_FACTS_SCHEMA,
+      CONFIG.VERCEL_SAFE_TIMEOUT,
+      {
+        task: 'vision',
+        route: 'image-facts',
+        images: inputs,
+        onUsage: record => { usage.push(record); },
+        signal: request.signal,
+        priority: parseRequestPriority(priority)
+      }
+    );
+
+    // 去除水印字符后规整
+    const facts = normalizeImageFacts({
+      productName: sanitizeText(output.productName),
+      brand: sanitizeText(output.brand),
+      ingredients: output.ingredients.map(sanitizeText),
+      specs: output.specs.map(sanitizeText),
+      otherFacts: output.otherFacts.map(sanitizeText),
+    });
+
+    return createApiResponse({
+      success: true,
+      facts,
+      text: formatImageFacts(facts),
+      usage
+    });
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 图片识别已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
+    console.error('Error in image-facts:', error);
+    return createErrorResponse(
+      'Failed to extract image facts',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
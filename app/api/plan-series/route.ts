@@ -0,0 +1,211 @@
+import { getSeriesPlanPrompt } from '@/lib/prompts';
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { aiManager } from '@/lib/ai-manager';
+import { createApiResponse, createErrorResponse } from '@/lib/utils';
+import { fetchHotPostsWithCache, getHotPostAnalysis } from '@/lib/hot-posts';
+import { loadVariantPool } from '@/lib/custom-variants';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import {
+  SERIES_CONFIG,
+  SERIES_PLAN_SCHEMA,
+  SeriesPlanOutput,
+  createSeriesPlan,
+  deleteSeriesPlan,
+  getSeriesPlan,
+  listSeriesPlans,
+  normalizeSeriesBriefs
+} from '@/lib/series-planner';
+import type { UsageRecord } from '@/lib/usage-tracker';
+
+/**
+ * 内容系列规划API
+ *
+ * 功能：
+ * - POST /api/plan-series - 结合爆款分析为同一关键词规划 N 篇互不重复的笔记简报
+ * - GET /api/plan-series - 查询所有系列规划或指定规划（含每篇的生成状态）
+ * - DELETE /api/plan-series - 删除系列规划
+ *
+ * 规划中的每一篇通过 /api/generate-combined 传 seriesId + briefIndex 按需生成
+ *
+ * 路由：GET/POST/DELETE /api/plan-series
+ */
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+/**
+ * 规划内容系列
+ *
+ * 请求体：
+ * - keyword: 必填，主题关键词
+ * - user_info: 必填，原始素材
+ * - count: 必填，篇数（2-10）
+ * - priority: 可选，interactive / batch
+ */
+export async function POST(request: Request) {
+  const requestStartTime = Date.now();
+  const getRemainingBudget = () => CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime);
+
+  try {
+    const { keyword, user_info, count, priority } = await request.json();
+
+    if (!keyword || !user_info) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST);
+    }
+    if (!Number.isInteger(count) || count < SERIES_CONFIG.MIN_BRIEFS || count > SERIES_CONFIG.MAX_BRIEFS) {
+      return createErrorResponse(
+        'Invalid count',
+        HTTP_STATUS.BAD_REQUEST,
+        `count 必须是 ${SERIES_CONFIG.MIN_BRIEFS}-${SERIES_CONFIG.MAX_BRIEFS} 之间的整数`
+      );
+    }
+
+    const requestPriority = parseRequestPriority(priority);
+    const usage: UsageRecord[] = [];
+
+    // 第一步：获取热门笔记并分析爆款规律（爬取功能禁用或获取失败时不使用分析）
+    const scrapedContent = await fetchHotPostsWithCache(keyword, request.signal);
+    const analysis = scrapedContent
+      ? await getHotPostAnalysis(keyword, scrapedContent, {
+          route: 'plan-series',
+          remainingForAI: getRemainingBudget(),
+          priority: requestPriority,
+          signal: request.signal,
+          onUsage: record => { usage.push(record); }
+        })
+      : null;
+
+    // 第二步：规划简报，写作变体只能从启用的变体中选
+    const variantPool = await loadVariantPool();
+    const enabledVariants = variantPool.getEntries().filter(entry => entry.enabled && entry.weight > 0).map(entry => entry.variant);
+    const output = await aiManager.analyzeWithRetry<SeriesPlanOutput>(
+      getSeriesPlanPrompt(keyword, user_info, count, enabledVariants.length > 0 ? enabledVariants : variantPool.getVariants(), analysis),
+      SERIES_PLAN_SCHEMA,
+      getRemainingBudget(),
+      {
+        task: 'analysis',
+        route: 'plan-series',
+        onUsage: record => { usage.push(record); },
+        signal: request.signal,
+        priority: requestPriority
+      }
+    );
+
+    const briefs = normalizeSeriesBriefs(output, count, variantPool);
+    if (briefs.length < count) {
+      console.warn(`⚠️ 模型只规划了 ${briefs.length}/${count} 篇: ${keyword}`);
+    }
+
+    const plan = await createSeriesPlan(keyword, user_info, briefs);
+    if (debugLoggingEnabled) {
+      console.log(`🗂️ 系列规划完成: ${keyword} (${plan.id}, ${briefs.length}篇，${analysis ? '有' : '无'}爆款分析)`);
+    }
+
+    return createApiResponse({ success: true, plan, analysisUsed: !!analysis, usage });
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 系列规划已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
+    console.error('Error in plan-series:', error);
+    return createErrorResponse(
+      'Failed to plan series',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 获取系列规划
+ *
+ * 查询参数：
+ * - id: 可选，返回指定规划的完整内容；不传时返回所有规划的概要
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const plan = await getSeriesPlan(id);
+      if (!plan) {
+        return createErrorResponse('Series plan not found', HTTP_STATUS.NOT_FOUND, `系列规划不存在: ${id}`);
+      }
+      return createApiResponse({ success: true, plan });
+    }
+
+    const plans = await listSeriesPlans();
+    return createApiResponse({
+      success: true,
+      total: plans.length,
+      plans: plans.map(plan => ({
+        id: plan.id,
+        keyword: plan.keyword,
+        total: plan.briefs.length,
+        generated: plan.briefs.filter(brief => brief.status === 'generated').length,
+        createdAt: plan.createdAt,
+        updatedAt: plan.updatedAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('获取系列规划失败:', error);
+    return createErrorResponse(
+      'Failed to list series plans',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 删除系列规划
+ *
+ * 请求体：
+ * - id: 必填，要删除的规划
+ */
+export async function DELETE(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return createErrorResponse('Missing series plan id', HTTP_STATUS.BAD_REQUEST, '请求体需要包含 id');
+    }
+
+    const result = await deleteSeriesPlan(body.id);
+    if (!result.ok) {
+      return createErrorResponse('Series plan not found', HTTP_STATUS.NOT_FOUND, result.errors.join('; '));
+    }
+
+    console.log(`🗑️ 已删除系列规划: ${body.id}`);
+    return createApiResponse({ success: true, id: body.id });
+
+  } catch (error) {
+    console.error('删除系列规划失败:', error);
+    return createErrorResponse(
+      'Failed to delete series plan',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
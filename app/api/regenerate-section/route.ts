@@ -0,0 +1,176 @@
+import { getSectionRegenerationPrompt } from '@/lib/prompts';
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { aiManager } from '@/lib/ai-manager';
+import { filterSensitiveContent } from '@/lib/sensitive-words';
+import { createApiResponse, createErrorResponse, sanitizeText } from '@/lib/utils';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import {
+  REGENERABLE_SECTIONS,
+  createEmptyGeneratedContent,
+  extractTags,
+  isRegenerableSection,
+  parseGeneratedContent,
+  serializeGeneratedContent
+} from '@/lib/content-parser';
+import { getBrandVoice, checkBrandVoice } from '@/lib/brand-voice';
+import { validateGeneratedContent } from '@/lib/format-validator';
+import { DEFAULT_PLATFORM, PLATFORM_IDS, isPlatformId } from '@/lib/platforms';
+import type { GeneratedContent } from '@/lib/types';
+import type { UsageRecord } from '@/lib/usage-tracker';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+// 整理客户端传入的生成内容，缺失或类型不对的字段按空值处理
+function normalizeGeneratedContent(value: unknown): GeneratedContent {
+  const content = createEmptyGeneratedContent();
+  if (!value || typeof value !== 'object') {
+    return content;
+  }
+
+  const input = value as Record<string, unknown>;
+  for (const key of Object.keys(content) as Array<keyof GeneratedContent>) {
+    if (key === 'tags') {
+      content.tags = Array.isArray(input.tags) ? input.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    } else if (typeof input[key] === 'string') {
+      content[key] = input[key] as string;
+    }
+  }
+  return content;
+}
+
+/**
+ * 单个分段重新生成API
+ *
+ * 功能：
+ * - 以当前整篇笔记为上下文，只重新生成指定分段，其余部分保持不变
+ *
+ * 请求体：
+ * - keyword: 必填，主题关键词
+ * - user_info: 必填，原始素材
+ * - section: 必填，titles / body / tags / imagePrompt / selfComment / strategy
+ * - content: 必填，当前的 GeneratedContent
+ * - brandVoiceId: 可选，品牌口吻 id
+ * - platform: 可选，xiaohongshu（默认）/ douyin / weibo / wechat，与生成时一致
+ * - priority: 可选，interactive / batch
+ *
+ * 路由：POST /api/regenerate-section
+ */
+export async function POST(request: Request) {
+  const requestStartTime = Date.now();
+
+  try {
+    const { keyword, user_info, section, content, priority, brandVoiceId, platform = DEFAULT_PLATFORM } = await request.json();
+
+    if (!keyword || !user_info || !content) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST);
+    }
+    if (!isRegenerableSection(section)) {
+      return createErrorResponse(
+        'Invalid section',
+        HTTP_STATUS.BAD_REQUEST,
+        `section 必须是以下之一: ${REGENERABLE_SECTIONS.join(', ')}`
+      );
+    }
+
+    if (!isPlatformId(platform)) {
+      return createErrorResponse(
+        'Invalid platform',
+        HTTP_STATUS.BAD_REQUEST,
+        `platform 必须是以下之一: ${PLATFORM_IDS.join(', ')}`
+      );
+    }
+
+    const brandVoice = brandVoiceId ? await getBrandVoice(String(brandVoiceId)) : null;
+    if (brandVoiceId && !brandVoice) {
+      return createErrorResponse('Invalid brandVoiceId', HTTP_STATUS.BAD_REQUEST, `品牌口吻不存在: ${brandVoiceId}`);
+    }
+
+    const currentContent = normalizeGeneratedContent(content);
+    const prompt = getSectionRegenerationPrompt(section, serializeGeneratedContent(currentContent, platform), user_info, keyword, brandVoice, platform);
+
+    let output = '';
+    let failure: Error | null = null;
+    let usage: UsageRecord | null = null;
+
+    await aiManager.generateStreamWithRetry(
+      prompt,
+      chunk => { output += chunk; },
+      error => { failure = error; },
+      CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime),
+      {
+        task: 'generation',
+        route: 'regenerate-section',
+        priority: parseRequestPriority(priority),
+        onUsage: record => { usage = record; },
+        // 模型从头重写时丢弃已收到的半截内容
+        onReset: () => { output = ''; },
+        signal: request.signal
+      }
+    );
+
+    if (failure) {
+      throw failure;
+    }
+
+    // 与整篇生成一致：去除水印字符并过滤敏感词
+    const cleanOutput = filterSensitiveContent(sanitizeText(output), 'replace');
+
+    // 优先按分段标题解析；模型漏写标题时把整段输出视为该分段内容
+    const parsed = parseGeneratedContent(cleanOutput);
+    const value = section === 'tags'
+      ? (parsed.tags.length > 0 ? parsed.tags : extractTags(cleanOutput))
+      : (parsed[section] || cleanOutput.trim());
+
+    if (value.length === 0) {
+      throw new Error(`${ERROR_MESSAGES.GENERATE_CONTENT_ERROR}: 模型未返回有效内容`);
+    }
+
+    if (debugLoggingEnabled) {
+      console.log(`🔁 分段重新生成完成: ${keyword} / ${section}`);
+    }
+
+    const nextContent: GeneratedContent = { ...currentContent, [section]: value };
+
+    return createApiResponse({
+      success: true,
+      section,
+      value,
+      content: nextContent,
+      brandCheck: brandVoice ? checkBrandVoice(nextContent, brandVoice) : null,
+      formatCheck: validateGeneratedContent(nextContent, platform),
+      usage
+    });
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 分段重新生成已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
+    console.error('Error in regenerate-section:', error);
+    return createErrorResponse(
+      'Failed to regenerate section',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
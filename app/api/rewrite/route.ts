@@ -0,0 +1,134 @@
+import { getRewritePrompt } from '@/lib/prompts';
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { aiManager } from '@/lib/ai-manager';
+import { filterSensitiveContent } from '@/lib/sensitive-words';
+import { createApiResponse, createErrorResponse, sanitizeText } from '@/lib/utils';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import { createRandomGenerationStyleConfig } from '@/lib/generation-variants';
+import { loadVariantPool } from '@/lib/custom-variants';
+import { diffText } from '@/lib/text-diff';
+import type { UsageRecord } from '@/lib/usage-tracker';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+// 检查原文中的数字、英文名称等硬信息是否在改写后丢失（只做提示，不阻断）
+function findMissingFacts(original: string, rewritten: string): string[] {
+  const facts = original.match(/[A-Za-z0-9][A-Za-z0-9.%]*/g) || [];
+  return Array.from(new Set(facts)).filter(fact => !rewritten.includes(fact));
+}
+
+/**
+ * 笔记改写（去AI味）API
+ *
+ * 功能：
+ * - 把一篇读起来像机器写的笔记改写成真人口吻，保留原文全部事实
+ * - 风格规则与生成接口一致，可指定写作变体，未指定时随机选择
+ * - 返回改写前后的差异对比
+ *
+ * 请求体：
+ * - text: 必填，原文
+ * - variantId: 可选，写作变体 id
+ * - priority: 可选，interactive / batch
+ *
+ * 路由：POST /api/rewrite
+ */
+export async function POST(request: Request) {
+  const requestStartTime = Date.now();
+
+  try {
+    const { text, variantId, priority } = await request.json();
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST, 'text 不能为空');
+    }
+    if (text.length > CONFIG.MAX_REWRITE_LENGTH) {
+      return createErrorResponse('Text too long', HTTP_STATUS.BAD_REQUEST, `原文不能超过 ${CONFIG.MAX_REWRITE_LENGTH} 字`);
+    }
+
+    const variantPool = await loadVariantPool();
+    const variant = variantId ? variantPool.getById(variantId) : variantPool.pickRandom();
+    if (!variant) {
+      return createErrorResponse('Invalid variantId', HTTP_STATUS.BAD_REQUEST, `未知的写作变体: ${variantId}`);
+    }
+
+    const original = text.trim();
+    const styleConfig = createRandomGenerationStyleConfig(variant);
+    const prompt = getRewritePrompt(original, styleConfig);
+
+    if (debugLoggingEnabled) {
+      console.log(`✏️ 改写笔记: ${original.length} 字，写作变体 ${styleConfig.variant.id} (${styleConfig.variant.label})`);
+    }
+
+    let output = '';
+    let failure: Error | null = null;
+    let usage: UsageRecord | null = null;
+
+    await aiManager.generateStreamWithRetry(
+      prompt,
+      chunk => { output += chunk; },
+      error => { failure = error; },
+      CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime),
+      {
+        task: 'rewrite',
+        route: 'rewrite',
+        priority: parseRequestPriority(priority),
+        onUsage: record => { usage = record; },
+        // 模型从头重写时丢弃已收到的半截内容
+        onReset: () => { output = ''; },
+        signal: request.signal
+      }
+    );
+
+    if (failure) {
+      throw failure;
+    }
+
+    // 与生成接口一致：去除水印字符并过滤敏感词
+    const rewritten = filterSensitiveContent(sanitizeText(output), 'replace').trim();
+    if (!rewritten) {
+      throw new Error(`${ERROR_MESSAGES.GENERATE_CONTENT_ERROR}: 模型未返回有效内容`);
+    }
+
+    return createApiResponse({
+      success: true,
+      variant: { id: styleConfig.variant.id, label: styleConfig.variant.label },
+      original,
+      rewritten,
+      diff: diffText(original, rewritten),
+      missingFacts: findMissingFacts(original, rewritten),
+      usage
+    });
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 笔记改写已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
+    console.error('Error in rewrite:', error);
+    return createErrorResponse(
+      'Failed to rewrite note',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
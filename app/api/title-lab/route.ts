@@ -0,0 +1,134 @@
+import { getTitleLabPrompt } from '@/lib/prompts';
+import { ERROR_MESSAGES, HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { aiManager } from '@/lib/ai-manager';
+import { createApiResponse, createErrorResponse, sanitizeText } from '@/lib/utils';
+import { fetchHotPostsWithCache, getHotPostAnalysis } from '@/lib/hot-posts';
+import { CancelledError } from '@/lib/error-handler';
+import { parseRequestPriority } from '@/lib/concurrency-limiter';
+import {
+  TITLE_LAB_CONFIG,
+  TitleLabOutput,
+  getTitleLabSchema,
+  getTitleScoringContext,
+  rankTitles
+} from '@/lib/title-lab';
+import type { UsageRecord } from '@/lib/usage-tracker';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+/**
+ * 标题实验室API
+ *
+ * 功能：
+ * - 只生成标题：一次批量生成 20-50 个候选标题
+ * - 检查每个标题是否≤20字（emoji计2字），按爆款分析中的标题公式、高频关键词和敏感词打分
+ * - 返回按分数排序的标题列表及打分理由
+ *
+ * 请求体：
+ * - keyword: 必填，主题关键词
+ * - user_info: 必填，原始素材
+ * - count: 可选，候选标题数量（20-50，默认 30）
+ * - priority: 可选，interactive / batch
+ *
+ * 路由：POST /api/title-lab
+ */
+export async function POST(request: Request) {
+  const requestStartTime = Date.now();
+  const getRemainingBudget = () => CONFIG.VERCEL_SAFE_TIMEOUT - (Date.now() - requestStartTime);
+
+  try {
+    const { keyword, user_info, count = TITLE_LAB_CONFIG.DEFAULT_COUNT, priority } = await request.json();
+
+    if (!keyword || !user_info) {
+      return createErrorResponse(ERROR_MESSAGES.MISSING_REQUIRED_PARAMS, HTTP_STATUS.BAD_REQUEST);
+    }
+    if (!Number.isInteger(count) || count < TITLE_LAB_CONFIG.MIN_COUNT || count > TITLE_LAB_CONFIG.MAX_COUNT) {
+      return createErrorResponse(
+        'Invalid count',
+        HTTP_STATUS.BAD_REQUEST,
+        `count 必须是 ${TITLE_LAB_CONFIG.MIN_COUNT}-${TITLE_LAB_CONFIG.MAX_COUNT} 之间的整数`
+      );
+    }
+
+    const requestPriority = parseRequestPriority(priority);
+    const usage: UsageRecord[] = [];
+
+    // 第一步：获取热门笔记并分析爆款规律，标题公式和高频关键词既用于生成也用于打分
+    const scrapedContent = await fetchHotPostsWithCache(keyword, request.signal);
+    const analysis = scrapedContent
+      ? await getHotPostAnalysis(keyword, scrapedContent, {
+          route: 'title-lab',
+          remainingForAI: getRemainingBudget(),
+          priority: requestPriority,
+          signal: request.signal,
+          onUsage: record => { usage.push(record); }
+        })
+      : null;
+
+    // 第二步：批量生成候选标题，使用生成任务的模型和温度
+    const output = await aiManager.analyzeWithRetry<TitleLabOutput>(
+      getTitleLabPrompt(keyword, user_info, count, analysis),
+      getTitleLabSchema(count),
+      getRemainingBudget(),
+      {
+        task: 'generation',
+        route: 'title-lab',
+        onUsage: record => { usage.push(record); },
+        signal: request.signal,
+        priority: requestPriority
+      }
+    );
+
+    // 第三步：去除水印字符后去重、打分、排序
+    const titles = rankTitles(
+      { titles: output.titles.map(item => ({ ...item, title: sanitizeText(item.title) })) },
+      getTitleScoringContext(keyword, analysis)
+    );
+
+    if (debugLoggingEnabled) {
+      console.log(`🧪 标题实验室: ${keyword} 生成 ${output.titles.length} 个，去重后 ${titles.length} 个，超字数 ${titles.filter(item => !item.withinLimit).length} 个`);
+    }
+
+    return createApiResponse({
+      success: true,
+      keyword,
+      // 去重后可能少于请求数量，requested 为请求的数量
+      requested: count,
+      total: titles.length,
+      titles,
+      analysisUsed: !!analysis,
+      usage
+    });
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`🛑 标题生成已取消`);
+      return createErrorResponse('Request cancelled', HTTP_STATUS.CLIENT_CLOSED_REQUEST, error.message);
+    }
+    console.error('Error in title-lab:', error);
+    return createErrorResponse(
+      'Failed to generate titles',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
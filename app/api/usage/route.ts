@@ -0,0 +1,74 @@
+import { createApiResponse, createErrorResponse } from '@/lib/utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getUsageRecords, summarizeUsage, USAGE_CONFIG } from '@/lib/usage-tracker';
+
+/**
+ * AI用量统计API
+ *
+ * 功能：
+ * - 汇总 AI 调用的 token 用量和估算成本
+ * - 按路由、按模型、按天聚合
+ *
+ * 查询参数：
+ * - days: 可选，统计最近几天（默认7，最多90）
+ * - route: 可选，只统计指定路由（如 generate-combined）
+ * - model: 可选，只统计指定模型
+ *
+ * 路由：GET /api/usage
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const daysParam = parseInt(searchParams.get('days') || '', 10);
+    const days = Number.isNaN(daysParam) ? USAGE_CONFIG.DEFAULT_QUERY_DAYS : daysParam;
+    const route = searchParams.get('route');
+    const model = searchParams.get('model');
+
+    const trackingEnabled = process.env.ENABLE_USAGE_TRACKING !== 'false';
+
+    let records = await getUsageRecords(days);
+    if (route) {
+      records = records.filter(record => record.route === route);
+    }
+    if (model) {
+      records = records.filter(record => record.model === model);
+    }
+
+    const summary = summarizeUsage(records);
+
+    return createApiResponse({
+      success: true,
+      trackingEnabled,
+      days: Math.min(Math.max(days, 1), USAGE_CONFIG.MAX_QUERY_DAYS),
+      filters: { route, model },
+      currency: 'USD',
+      ...summary,
+    });
+
+  } catch (error) {
+    console.error('获取用量统计失败:', error);
+    return createErrorResponse(
+      'Failed to get usage statistics',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
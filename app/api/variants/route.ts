@@ -0,0 +1,192 @@
+import { createApiResponse, createErrorResponse } from '@/lib/utils';
+import { HTTP_STATUS, CONFIG } from '@/lib/constants';
+import { getGenerationStylePool, VariantPoolEntry } from '@/lib/generation-variants';
+import { resolveTaskConfig } from '@/lib/ai-tasks';
+import {
+  loadVariantPool,
+  createCustomVariant,
+  updateVariant,
+  deleteCustomVariant,
+  VariantStoreResult
+} from '@/lib/custom-variants';
+
+/**
+ * 写作变体API
+ *
+ * 功能：
+ * - GET /api/variants - 列出随机池中的写作变体（内置 + 自定义，含启用状态和权重）、深度模块、emoji 密度和温度范围
+ * - POST /api/variants - 新增自定义变体
+ * - PUT /api/variants - 修改变体：自定义变体可改内容，内置变体只能改 enabled / weight
+ * - DELETE /api/variants - 删除自定义变体
+ *
+ * 路由：GET/POST/PUT/DELETE /api/variants
+ */
+
+function serializeEntry({ variant, enabled, weight, source }: VariantPoolEntry) {
+  return { ...variant, enabled, weight, source };
+}
+
+// 把存储操作的失败原因映射为 HTTP 状态码
+function createStoreErrorResponse(result: Extract<VariantStoreResult<unknown>, { ok: false }>): Response {
+  const status = result.reason === 'not_found'
+    ? HTTP_STATUS.NOT_FOUND
+    : result.reason === 'conflict' ? HTTP_STATUS.CONFLICT : HTTP_STATUS.BAD_REQUEST;
+  return createErrorResponse('Invalid variant', status, result.errors.join('; '));
+}
+
+/**
+ * 获取写作变体列表
+ *
+ * 查询参数：
+ * - id: 可选，只返回指定变体
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const pool = await loadVariantPool();
+
+    if (id) {
+      const entry = pool.getEntries().find(item => item.variant.id === id);
+      if (!entry) {
+        return createErrorResponse('Variant not found', HTTP_STATUS.NOT_FOUND, `写作变体不存在: ${id}`);
+      }
+      return createApiResponse({ success: true, variant: serializeEntry(entry) });
+    }
+
+    const { entries, depthModules, emojiDensities } = getGenerationStylePool(pool);
+
+    return createApiResponse({
+      success: true,
+      variants: entries.map(serializeEntry),
+      depthModules,
+      emojiDensities,
+      temperature: {
+        min: CONFIG.MIN_TEMPERATURE,
+        max: CONFIG.MAX_TEMPERATURE,
+        default: resolveTaskConfig('generation').temperature,
+      },
+    });
+
+  } catch (error) {
+    console.error('获取写作配置失败:', error);
+    return createErrorResponse(
+      'Failed to list variants',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 新增自定义变体
+ *
+ * 请求体：GenerationVariant 的全部字段（id、label、persona、angle、openingOptions、structure、styleRules、endingOptions、emojiDensity），
+ * 可选 enabled（默认 true）和 weight（默认 1）
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return createErrorResponse('Invalid request body', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const result = await createCustomVariant(body);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🎛️ 已新增写作变体: ${result.data.id} (${result.data.label})`);
+    return createApiResponse({ success: true, variant: { ...result.data, source: 'custom' } });
+
+  } catch (error) {
+    console.error('新增写作变体失败:', error);
+    return createErrorResponse(
+      'Failed to create variant',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 修改写作变体
+ *
+ * 请求体：
+ * - id: 必填，要修改的变体
+ * - enabled / weight: 可选
+ * - 内容字段: 仅自定义变体可改，需提供完整内容
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return createErrorResponse('Missing variant id', HTTP_STATUS.BAD_REQUEST, '请求体需要包含 id');
+    }
+
+    const result = await updateVariant(body.id, body);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🎛️ 已更新写作变体: ${body.id}`);
+    return createApiResponse({ success: true, variant: serializeEntry(result.data) });
+
+  } catch (error) {
+    console.error('更新写作变体失败:', error);
+    return createErrorResponse(
+      'Failed to update variant',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 删除自定义变体
+ *
+ * 请求体：
+ * - id: 必填，要删除的变体
+ */
+export async function DELETE(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return createErrorResponse('Missing variant id', HTTP_STATUS.BAD_REQUEST, '请求体需要包含 id');
+    }
+
+    const result = await deleteCustomVariant(body.id);
+    if (!result.ok) {
+      return createStoreErrorResponse(result);
+    }
+
+    console.log(`🗑️ 已删除写作变体: ${body.id}`);
+    return createApiResponse({ success: true, id: body.id });
+
+  } catch (error) {
+    console.error('删除写作变体失败:', error);
+    return createErrorResponse(
+      'Failed to delete variant',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * 支持OPTIONS方法用于CORS预检
+ */
+export async function OPTIONS() {
+  const allowedOrigin = process.env.NODE_ENV === 'production'
+    ? (process.env.PRODUCTION_URL || 'https://xhs-ai-writer.vercel.app')
+    : '*';
+
+  return new Response(null, {
+    status: HTTP_STATUS.OK,
+    headers: {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
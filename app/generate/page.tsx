@@ -1,14 +1,21 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback, Suspense, useMemo, memo } from 'react'
+import { useState, useEffect, useRef, Suspense, useMemo, memo } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Clipboard, Check, ArrowLeft, ArrowUp } from 'lucide-react'
+import { Clipboard, Check, ArrowLeft, ArrowUp, RefreshCw } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
+import AiFlavorCard from '@/components/AiFlavorCard'
 import { GeneratedContent } from '@/lib/types'
+import type { BrandVoiceCheck } from '@/lib/brand-voice'
+import type { FormatCheckResult } from '@/lib/format-validator'
+import type { SimilarityCheck } from '@/lib/keyword-memory'
+import type { UsageRecord } from '@/lib/usage-tracker'
+import { ContentSection, RegenerableSection, createEmptyGeneratedContent, extractTags, parseGeneratedContent, serializeGeneratedContent } from '@/lib/content-parser'
+import { DEFAULT_PLATFORM, formatTag, isPlatformId, type PlatformId } from '@/lib/platforms'
 
 // 优化的Markdown渲染组件
 const OptimizedMarkdown = memo(({ content }: { content: string }) => {
@@ -31,13 +38,6 @@ const OptimizedMarkdown = memo(({ content }: { content: string }) => {
 });
 
 OptimizedMarkdown.displayName = 'OptimizedMarkdown';
-const titleRegex = /##\s*1[.、]?\s*(爆款标题创作|标题|生成标题)(\s*（\d+个）)?/i;
-const bodyRegex = /##\s*2[.、]?\s*(正文内容|笔记正文|内容|正文|文案内容)/i;
-const tagsRegex = /##\s*3[.、]?\s*(关键词标签|标签|关键词)(\s*（\d+-\d+个）)?/i;
-const imagePromptRegex = /##\s*4[.、]?\s*(AI绘画提示词|绘画提示词|AI绘画|绘画提示)/i;
-const selfCommentRegex = /##\s*5[.、]?\s*(首评关键词引导|首评)/i;
-const strategyRegex = /##\s*6[.、]?\s*(发布策略建议|发布策略)/i;
-const playbookRegex = /##\s*7[.、]?\s*(小红书增长 Playbook|增长 Playbook)/i;
 
 // 简单的文本格式化函数
 const formatText = (text: string) => {
@@ -90,24 +90,101 @@ const formatText = (text: string) => {
   });
 };
 
+// 单个候选版本的生成状态（未指定多候选时只有一个候选）
+interface CandidateState {
+  id: number;
+  label: string; // 写作变体名称
+  raw: string; // 原始全文，用于一键复制
+  tagsText: string; // 标签分段的原始文本，流式过程中据此实时提取标签
+  content: GeneratedContent;
+  status: 'generating' | 'done' | 'error';
+  error?: string;
+  brandCheck?: BrandVoiceCheck; // 指定品牌口吻时服务端返回的检查结果
+  formatCheck?: FormatCheckResult; // 服务端返回的格式校验结果
+  similarityCheck?: SimilarityCheck; // 与同一关键词近期内容的相似度检查结果
+}
+
+const createCandidateState = (id: number, label = ''): CandidateState => ({
+  id,
+  label,
+  raw: '',
+  tagsText: '',
+  content: createEmptyGeneratedContent(),
+  status: 'generating'
+});
+
+// 单个候选的流式事件，与 /api/generate-combined 推送的事件一一对应（多候选时另带 candidate 编号）
+type CandidateStreamEvent =
+  | { reset: true }
+  | { content: string }
+  | { section_start: { section: ContentSection } }
+  | { section_delta: { section: ContentSection; content: string } }
+  | { section_end: { section: ContentSection; value: string | string[] } }
+  | { brand_check: BrandVoiceCheck }
+  | { format_check: FormatCheckResult }
+  | { similarity_check: SimilarityCheck }
+  | { usage: UsageRecord }
+  | { result: GeneratedContent }
+  | { error: string };
+
+// 把服务端推送的一条事件应用到对应的候选上
+const applyStreamEvent = (candidate: CandidateState, event: CandidateStreamEvent, platform: PlatformId): CandidateState => {
+  if ('reset' in event) {
+    // 服务端重试时模型从头重写，丢弃已显示的半截内容，避免重复
+    return createCandidateState(candidate.id, candidate.label);
+  }
+  if ('content' in event) {
+    return event.content ? { ...candidate, raw: candidate.raw + event.content } : candidate;
+  }
+  if ('section_delta' in event) {
+    // 服务端已按分段解析，立即追加到对应区域，实现真正的流式输出
+    const { section, content } = event.section_delta;
+    if (section === 'tags') {
+      const tagsText = candidate.tagsText + content;
+      return { ...candidate, tagsText, content: { ...candidate.content, tags: extractTags(tagsText) } };
+    }
+    return { ...candidate, content: { ...candidate.content, [section]: candidate.content[section] + content } };
+  }
+  if ('section_end' in event) {
+    // 分段结束时以服务端整理后的最终值为准
+    const { section, value } = event.section_end;
+    return { ...candidate, content: { ...candidate.content, [section]: value } };
+  }
+  if ('brand_check' in event) {
+    return { ...candidate, brandCheck: event.brand_check };
+  }
+  if ('format_check' in event) {
+    return { ...candidate, formatCheck: event.format_check };
+  }
+  if ('similarity_check' in event) {
+    return { ...candidate, similarityCheck: event.similarity_check };
+  }
+  if ('result' in event) {
+    // 服务端修复过格式时，流式收到的原文已过时，按最终内容重建
+    const raw = candidate.formatCheck?.repairedSections.length ? serializeGeneratedContent(event.result, platform) : candidate.raw;
+    return { ...candidate, content: event.result, raw, status: 'done' };
+  }
+  if ('error' in event) {
+    return { ...candidate, status: 'error', error: event.error };
+  }
+  return candidate;
+};
+
 function GeneratePageContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
+  // 输出平台，决定标签写法并随请求传给服务端
+  const platformParam = searchParams.get('platform')
+  const platform: PlatformId = isPlatformId(platformParam) ? platformParam : DEFAULT_PLATFORM
   const [loading, setLoading] = useState(true)
   const [loadingStage, setLoadingStage] = useState('preparing')
+  // 模型并发已满时服务端推送的排队位置（从 1 开始），null 表示未排队
+  const [queuePosition, setQueuePosition] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showScrollTop, setShowScrollTop] = useState(false)
   const [showRegeneratePrompt, setShowRegeneratePrompt] = useState(false)
   const [hasGenerated, setHasGenerated] = useState(false)
-  const [generatedContent, setGeneratedContent] = useState<GeneratedContent>({
-    titles: '',
-    body: '',
-    tags: [],
-    imagePrompt: '',
-    selfComment: '',
-    strategy: '',
-    playbook: ''
-  })
+  const [generatedContent, setGeneratedContent] = useState<GeneratedContent>(createEmptyGeneratedContent)
   
   // 为每个需要复制的区域创建一个 ref
   const titlesRef = useRef<HTMLDivElement>(null);
@@ -124,106 +201,96 @@ function GeneratePageContent() {
   const [displayContent, setDisplayContent] = useState('')
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  // 解析内容的函数
-  const parseContent = useCallback((content: string) => {
-    // 查找各部分的位置
-    const titleMatch = content.match(titleRegex);
-    const bodyMatch = content.match(bodyRegex);
-    const tagsMatch = content.match(tagsRegex);
-    const imagePromptMatch = content.match(imagePromptRegex);
-    const selfCommentMatch = content.match(selfCommentRegex);
-    const strategyMatch = content.match(strategyRegex);
-    const playbookMatch = content.match(playbookRegex);
-
-    // 创建位置数组并排序
-    const sections = [
-      { name: 'title', match: titleMatch, index: titleMatch?.index ?? -1 },
-      { name: 'body', match: bodyMatch, index: bodyMatch?.index ?? -1 },
-      { name: 'tags', match: tagsMatch, index: tagsMatch?.index ?? -1 },
-      { name: 'imagePrompt', match: imagePromptMatch, index: imagePromptMatch?.index ?? -1 },
-      { name: 'selfComment', match: selfCommentMatch, index: selfCommentMatch?.index ?? -1 },
-      { name: 'strategy', match: strategyMatch, index: strategyMatch?.index ?? -1 },
-      { name: 'playbook', match: playbookMatch, index: playbookMatch?.index ?? -1 }
-    ].filter(section => section.index !== -1).sort((a, b) => a.index - b.index);
-
-    // 初始化内容变量
-    let titles = '';
-    let body = '';
-    let tags: string[] = [];
-    let imagePrompt = '';
-    let selfComment = '';
-    let strategy = '';
-    let playbook = '';
-
-    if (sections.length === 0) {
-      // 如果一个标记都找不到，所有内容都暂时视为标题
-      titles = content;
-    } else {
-      // 检查第一个标记之前是否有内容
-      const firstSectionIndex = sections[0].index;
-      if (firstSectionIndex > 0) {
-        // 第一个标记之前的内容作为标题
-        titles = content.substring(0, firstSectionIndex).trim();
+  // 各候选版本的生成状态，下方详情区域展示当前选中的候选
+  const [candidates, setCandidates] = useState<CandidateState[]>([])
+  const [selectedCandidate, setSelectedCandidate] = useState(0)
+
+  useEffect(() => {
+    const candidate = candidates.find(item => item.id === selectedCandidate) ?? candidates[0];
+    if (!candidate) return;
+    // 选中的候选生成失败时，自动切换到第一个可用的候选
+    if (candidate.status === 'error') {
+      const fallback = candidates.find(item => item.status !== 'error');
+      if (fallback) {
+        setSelectedCandidate(fallback.id);
+        return;
       }
     }
+    setGeneratedContent(candidate.content);
+    setDisplayContent(candidate.raw);
+  }, [candidates, selectedCandidate]);
 
-    // 循环解析每个已识别的部分
-    for (let i = 0; i < sections.length; i++) {
-      const currentSection = sections[i];
-      const nextSection = sections[i + 1];
-
-      // 计算当前部分的开始和结束位置
-      const startIndex = currentSection.index + (currentSection.match?.[0].length || 0);
-      const endIndex = nextSection ? nextSection.index : content.length;
-
-      const sectionContent = content.substring(startIndex, endIndex).trim();
-
-      switch (currentSection.name) {
-        case 'title':
-          titles = sectionContent;
-          break;
-        case 'body':
-          body = sectionContent;
-          break;
-        case 'tags':
-          const tagMatches = sectionContent.match(/#[\u4e00-\u9fa5a-zA-Z0-9_]+/g) || [];
-          const listTagMatches = sectionContent.match(/[-*]\s*([^\n]+)/g) || [];
-          const extractedTags = [
-            ...tagMatches.map(tag => tag.replace(/^#/, '')), // 移除#号
-            ...listTagMatches.map(item => item.replace(/[-*]\s*/, '').trim())
-          ];
-          tags = Array.from(new Set(extractedTags)).filter(Boolean); // 去重并移除空字符串
-          break;
-        case 'imagePrompt':
-          imagePrompt = sectionContent;
-          break;
-        case 'selfComment':
-          selfComment = sectionContent;
-          break;
-        case 'strategy':
-          strategy = sectionContent;
-          break;
-        case 'playbook':
-          playbook = sectionContent;
-          break;
+  // 当前查看的候选的品牌口吻检查结果
+  const brandCheck = (candidates.find(item => item.id === selectedCandidate) ?? candidates[0])?.brandCheck;
+  // 当前查看的候选的格式校验结果
+  const formatCheck = (candidates.find(item => item.id === selectedCandidate) ?? candidates[0])?.formatCheck;
+  // 当前查看的候选与近期内容的相似度检查结果
+  const similarityCheck = (candidates.find(item => item.id === selectedCandidate) ?? candidates[0])?.similarityCheck;
+
+  // 正在重新生成的分段及失败提示
+  const [regeneratingSection, setRegeneratingSection] = useState<RegenerableSection | null>(null)
+  const [regenerateError, setRegenerateError] = useState<string | null>(null)
+
+  // 单独重新生成某个分段，结果写回当前查看的候选
+  const handleRegenerateSection = async (section: RegenerableSection) => {
+    const keyword = searchParams.get('keyword');
+    const userInfo = searchParams.get('userInfo');
+    if (!keyword || !userInfo || regeneratingSection) return;
+
+    setRegeneratingSection(section);
+    setRegenerateError(null);
+    try {
+      const response = await fetch('/api/regenerate-section', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          keyword,
+          user_info: userInfo,
+          section,
+          content: generatedContent,
+          brandVoiceId: searchParams.get('brandVoice') || undefined,
+          platform,
+          priority: 'interactive',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
       }
-    }
 
-    return { titles, body, tags, imagePrompt, selfComment, strategy, playbook };
-  }, []);
+      const content: GeneratedContent = data.content;
+      if (candidates.length > 0) {
+        setCandidates(prev => prev.map(item => item.id === selectedCandidate
+          ? { ...item, content, raw: serializeGeneratedContent(content, platform), brandCheck: data.brandCheck ?? item.brandCheck, formatCheck: { ...data.formatCheck, repairedSections: [] } }
+          : item));
+      } else {
+        setGeneratedContent(content);
+        setDisplayContent(serializeGeneratedContent(content, platform));
+      }
+    } catch (err) {
+      console.error('重新生成失败:', err);
+      setRegenerateError(err instanceof Error ? err.message : '重新生成失败，请重试');
+    } finally {
+      setRegeneratingSection(null);
+    }
+  };
 
-  // 实时解析显示内容并更新状态 - 使用节流优化性能
-  useEffect(() => {
-    if (!displayContent) return;
-    
-    // 使用 requestAnimationFrame 优化渲染性能
-    const timeoutId = setTimeout(() => {
-      const parsed = parseContent(displayContent);
-      setGeneratedContent(parsed);
-    }, 100); // 100ms 节流，避免过于频繁的解析
-    
-    return () => clearTimeout(timeoutId);
-  }, [displayContent, parseContent]);
+  const renderRegenerateButton = (section: RegenerableSection) => (
+    <Button
+      onClick={() => handleRegenerateSection(section)}
+      disabled={loading || regeneratingSection !== null}
+      variant="outline"
+      size="sm"
+      className="ml-auto w-[90px] sm:w-[110px] text-xs sm:text-sm border-indigo-200 text-indigo-600 hover:bg-indigo-50 transition-all duration-200"
+    >
+      <span className="flex items-center gap-2">
+        <RefreshCw size={14} className={regeneratingSection === section ? 'animate-spin' : ''} />
+        {regeneratingSection === section ? '生成中' : '重新生成'}
+      </span>
+    </Button>
+  );
 
   // 通用的、带反馈的复制处理函数
   const handleCopy = (textToCopy: string | undefined, buttonId: string) => {
@@ -263,6 +330,9 @@ function GeneratePageContent() {
   const startGeneration = async () => {
     const keyword = searchParams.get('keyword');
     const userInfo = searchParams.get('userInfo');
+    const candidateCount = parseInt(searchParams.get('candidates') || '1', 10) || 1;
+    const seed = searchParams.get('seed') || undefined;
+    const brandVoiceId = searchParams.get('brandVoice') || undefined;
     
     if (!keyword || !userInfo) {
       setError('缺少必要的参数');
@@ -279,6 +349,10 @@ function GeneratePageContent() {
       // 立即开始生成流程，不等待
       setLoadingStage('fetching-data');
       setDisplayContent('');
+      setGeneratedContent(createEmptyGeneratedContent());
+      setCandidates([createCandidateState(0)]);
+      setSelectedCandidate(0);
+      setQueuePosition(null);
       
       // 确保之前的 AbortController 被清理
       if (abortControllerRef.current) {
@@ -300,6 +374,13 @@ function GeneratePageContent() {
           body: JSON.stringify({
             user_info: userInfo,
             keyword,
+            candidates: candidateCount,
+            seed,
+            brandVoiceId,
+            platform,
+            repairFormat: true,
+            // 页面请求优先于 n8n 等批量调用
+            priority: 'interactive',
           }),
           signal: currentController.signal,
         });
@@ -318,6 +399,8 @@ function GeneratePageContent() {
 
         const reader = streamResponse.body?.getReader();
         const decoder = new TextDecoder();
+        // 一次读取可能只包含半个事件，未结束的部分留到下次读取时拼接
+        let buffer = '';
 
         if (reader) {
           try {
@@ -331,8 +414,11 @@ function GeneratePageContent() {
               const { done, value } = await reader.read();
               if (done) break;
 
-              const chunk = decoder.decode(value);
-              const lines = chunk.split('\n');
+              buffer += decoder.decode(value, { stream: true });
+              // 事件以空行结尾，只解析已完整收到的事件
+              const events = buffer.split('\n\n');
+              buffer = events.pop() || '';
+              const lines = events.flatMap(event => event.split('\n'));
 
               for (const line of lines) {
                 if (line.startsWith('data: ')) {
@@ -346,11 +432,27 @@ function GeneratePageContent() {
 
                   try {
                     const parsed = JSON.parse(data);
-                    if (parsed.content) {
-                      // 立即追加内容到显示区域，实现真正的流式输出
-                      setDisplayContent(prev => prev + parsed.content);
-                    } else if (parsed.error) {
-                      throw new Error(parsed.error);
+                    if (parsed.queue) {
+                      // 上游模型繁忙，正在排队
+                      setQueuePosition(parsed.queue.position);
+                    } else if (parsed.candidates) {
+                      // 多候选生成：服务端先告知各候选使用的写作变体
+                      setCandidates(parsed.candidates.map((item: { id: number; variant: { label: string } }) =>
+                        createCandidateState(item.id, item.variant.label)));
+                    } else if (parsed.meta) {
+                      // 种子和写作配置只记录到控制台，排查问题时可通过 ?seed= 复现
+                      console.info(`生成配置${parsed.candidate !== undefined ? ` (版本 ${parsed.candidate + 1})` : ''}:`, parsed.meta);
+                    } else if (parsed.error && parsed.candidate === undefined) {
+                      // 整体失败（如内容与近期雷同被拒绝）：直接提示并结束加载，不再等待后续事件
+                      setError(parsed.error);
+                      setLoading(false);
+                      setLoadingStage('');
+                      return;
+                    } else {
+                      // 多候选时事件带有候选编号，单篇生成时统一视为 0 号候选
+                      if (parsed.content) setQueuePosition(null);
+                      const candidateId = parsed.candidate ?? 0;
+                      setCandidates(prev => prev.map(item => item.id === candidateId ? applyStreamEvent(item, parsed as CandidateStreamEvent, platform) : item));
                     }
                   } catch (parseError) {
                     console.warn('解析错误:', parseError);
@@ -359,6 +461,11 @@ function GeneratePageContent() {
                 }
               }
             }
+
+            // 流在 [DONE] 之前结束说明连接中断，不能停留在加载状态
+            if (!currentController.signal.aborted) {
+              throw new Error('生成中断，连接意外结束，请重试');
+            }
           } finally {
             reader.releaseLock();
           }
@@ -401,8 +508,7 @@ function GeneratePageContent() {
         if (data) {
           // 处理已生成的数据
           const decodedData = decodeURIComponent(atob(data));
-          const parsed = parseContent(decodedData);
-          setGeneratedContent(parsed);
+          setGeneratedContent(parseGeneratedContent(decodedData));
           setLoading(false);
           setHasGenerated(true);
           return;
@@ -443,7 +549,7 @@ function GeneratePageContent() {
     };
 
     checkAndStart();
-  }, [searchParams, parseContent, hasGenerated]);
+  }, [searchParams, hasGenerated]);
   
   // 清理函数
   useEffect(() => {
@@ -575,6 +681,11 @@ function GeneratePageContent() {
                   <p className="text-sm sm:text-base lg:text-lg text-gray-600 max-w-md mx-auto leading-relaxed">
                     {currentStage.description}
                   </p>
+                  {queuePosition !== null && (
+                    <p className="text-sm sm:text-base text-amber-600 max-w-md mx-auto leading-relaxed">
+                      ⏳ 当前使用人数较多，正在排队（第 {queuePosition} 位）
+                    </p>
+                  )}
                   
                   {/* 进度指示器 */}
                   <div className="flex justify-center items-center gap-2 sm:gap-3 mt-6">
@@ -772,6 +883,109 @@ function GeneratePageContent() {
             </Card>
           )}
 
+          {/* 多版本对比卡片 - 多候选生成时并排展示，选中的版本在下方展示完整详情 */}
+          {!loading && candidates.length > 1 && (
+            <Card className="animate-slide-up glass-card shadow-2xl overflow-hidden bg-gradient-to-br from-blue-50/90 via-indigo-50/80 to-purple-50/90 backdrop-blur-md border border-blue-200/30">
+              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500"></div>
+              <CardHeader className="pb-3 px-4 sm:px-6 lg:px-8 pt-6">
+                <CardTitle className="flex items-center gap-2 text-lg sm:text-xl lg:text-2xl">
+                  <span className="text-xl sm:text-2xl lg:text-3xl">🧪</span>
+                  <span className="bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 bg-clip-text text-transparent font-bold">
+                    多版本对比
+                  </span>
+                  <Badge variant="tag" className="ml-2 bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-700 border-0">
+                    {candidates.length}个版本
+                  </Badge>
+                </CardTitle>
+                <CardDescription className="text-sm sm:text-base text-gray-600 mt-1">
+                  同一份参考数据、不同写作风格，选择一个版本查看完整内容
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6 lg:px-8 pb-6 sm:pb-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {candidates.map(candidate => (
+                    <div
+                      key={candidate.id}
+                      className={`flex flex-col p-4 rounded-2xl border-2 bg-white/70 transition-all duration-300 ${
+                        candidate.id === selectedCandidate ? 'border-indigo-400 shadow-lg' : 'border-blue-100 hover:border-blue-300'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <span className="font-semibold text-indigo-700">
+                          版本{candidate.id + 1}{candidate.label && ` · ${candidate.label}`}
+                        </span>
+                        {candidate.status === 'error' && (
+                          <Badge variant="tag" className="bg-red-100 text-red-700 border-0">失败</Badge>
+                        )}
+                      </div>
+                      {candidate.status === 'error' ? (
+                        <p className="text-sm text-red-600 flex-1">{candidate.error}</p>
+                      ) : (
+                        <div className="flex-1 max-h-72 overflow-y-auto text-sm text-slate-700 leading-relaxed space-y-2">
+                          <OptimizedMarkdown content={candidate.content.titles} />
+                          <div className="whitespace-pre-line text-slate-600">{candidate.content.body}</div>
+                          {candidate.content.tags.length > 0 && (
+                            <div className="text-indigo-600">
+                              {candidate.content.tags.map(tag => formatTag(tag, platform)).join(' ')}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      <Button
+                        onClick={() => setSelectedCandidate(candidate.id)}
+                        disabled={candidate.status === 'error' || candidate.id === selectedCandidate}
+                        variant="outline"
+                        size="sm"
+                        className="mt-4 border-indigo-200 text-indigo-600 hover:bg-indigo-50"
+                      >
+                        {candidate.id === selectedCandidate ? '当前查看' : '查看此版本'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* 品牌口吻提示 - 生成内容不符合品牌口吻时提醒人工修改 */}
+          {!loading && brandCheck && !brandCheck.passed && (
+            <div className="bg-amber-50 border border-amber-200 p-4 rounded-md text-sm text-amber-800 space-y-1">
+              <div className="font-semibold">⚠️ 内容与品牌口吻不一致，发布前请修改</div>
+              {brandCheck.forbiddenWords.length > 0 && (
+                <div>出现禁用词：{brandCheck.forbiddenWords.join('、')}</div>
+              )}
+              {brandCheck.productNaming.map(({ alias, name }) => (
+                <div key={alias}>产品名称写法不规范：「{alias}」应写作「{name}」</div>
+              ))}
+              {brandCheck.missingSignature && (
+                <div>没有用到任何品牌标志性表达</div>
+              )}
+            </div>
+          )}
+
+          {/* 格式提示 - 修复后仍不符合格式要求时提醒人工修改 */}
+          {!loading && formatCheck && !formatCheck.passed && (
+            <div className="bg-amber-50 border border-amber-200 p-4 rounded-md text-sm text-amber-800 space-y-1">
+              <div className="font-semibold">⚠️ 内容不符合格式要求，发布前请修改</div>
+              {formatCheck.violations.map((violation, index) => (
+                <div key={index}>{violation.message}</div>
+              ))}
+            </div>
+          )}
+
+          {/* 相似度提示 - 与同一关键词的近期内容雷同时提醒重新生成或修改 */}
+          {!loading && similarityCheck && !similarityCheck.passed && similarityCheck.similarTo && (
+            <div className="bg-amber-50 border border-amber-200 p-4 rounded-md text-sm text-amber-800 space-y-1">
+              <div className="font-semibold">⚠️ 与近期同主题内容相似度 {Math.round(similarityCheck.score * 100)}%，建议重新生成或修改开头和标题</div>
+              {similarityCheck.similarTo.opening && (
+                <div>相似内容的开头：{similarityCheck.similarTo.opening}</div>
+              )}
+              {similarityCheck.similarTo.titles.length > 0 && (
+                <div>相似内容的标题：{similarityCheck.similarTo.titles.join(' / ')}</div>
+              )}
+            </div>
+          )}
+
           {/* 各个分段的卡片 - 根据内容实时显示 */}
           {/* 标题卡片 - 当有标题内容时就显示 */}
           {generatedContent.titles && (
@@ -793,6 +1007,7 @@ function GeneratePageContent() {
                       AI生成的吸引眼球的爆款标题
                     </CardDescription>
                   </div>
+                  {renderRegenerateButton('titles')}
                   <Button
                     onClick={() => handleCopy(titlesRef.current?.innerText, 'titles')}
                     variant="glass"
@@ -845,6 +1060,7 @@ function GeneratePageContent() {
                     AI生成的精彩正文内容
                   </CardDescription>
                 </div>
+                {renderRegenerateButton('body')}
                 <Button
                   onClick={() => handleCopy(bodyRef.current?.innerText, 'body')}
                   variant="glass"
@@ -884,6 +1100,11 @@ function GeneratePageContent() {
             </Card>
           )}
 
+          {/* AI味检测 - 生成完成后给正文打分并高亮模板化表达 */}
+          {!loading && generatedContent.body && (
+            <AiFlavorCard text={generatedContent.body} />
+          )}
+
           {/* 标签卡片 - 当有标签时就显示 */}
           {generatedContent.tags.length > 0 && (
             <Card id="tags-section" className="animate-slide-up glass-card shadow-2xl hover-lift overflow-hidden bg-gradient-to-br from-blue-50/90 via-indigo-50/80 to-purple-50/90 backdrop-blur-md border border-blue-200/30">
@@ -903,6 +1124,7 @@ function GeneratePageContent() {
                     AI生成的热门流行标签
                   </CardDescription>
                 </div>
+                {renderRegenerateButton('tags')}
                 <Button
                   onClick={() => handleCopy(tagsRef.current?.innerText?.replace(/\s+/g, ' '), 'tags')}
                   variant="glass"
@@ -932,7 +1154,7 @@ function GeneratePageContent() {
                         className="cursor-pointer text-xs sm:text-sm font-medium animate-fade-in hover:scale-105 transition-all duration-300 bg-gradient-to-r from-indigo-100 via-purple-100 to-blue-100 hover:from-indigo-200 hover:via-purple-200 hover:to-blue-200 text-indigo-800 border-indigo-200 shadow-lg hover:shadow-xl"
                         style={{ animationDelay: `${index * 0.1}s` }}
                       >
-                        #{tag}
+                        {formatTag(tag, platform)}
                       </Badge>
                     ))}
                   </div>
@@ -952,6 +1174,7 @@ function GeneratePageContent() {
                   </CardTitle>
                   <CardDescription className="text-sm sm:text-base text-gray-600">为配图生成的AI绘画提示</CardDescription>
                 </div>
+                {renderRegenerateButton('imagePrompt')}
                 <Button
                   onClick={() => handleCopy(imagePromptRef.current?.innerText, 'imagePrompt')}
                   variant="outline"
@@ -989,6 +1212,7 @@ function GeneratePageContent() {
                   </CardTitle>
                   <CardDescription className="text-sm sm:text-base text-gray-600">复制后发布在自己的评论区，提升SEO效果</CardDescription>
                 </div>
+                {renderRegenerateButton('selfComment')}
                 <Button
                   onClick={() => handleCopy(selfCommentRef.current?.innerText, 'selfComment')}
                   variant="outline"
@@ -1026,6 +1250,7 @@ function GeneratePageContent() {
                   </CardTitle>
                   <CardDescription className="text-sm sm:text-base text-gray-600">AI基于内容类型给出的发布时机建议</CardDescription>
                 </div>
+                {renderRegenerateButton('strategy')}
               </CardHeader>
               <CardContent className="px-4 sm:px-6">
                 <div className="prose prose-base max-w-none text-gray-800 leading-relaxed p-4 bg-gradient-to-br from-blue-100/60 via-indigo-100/50 to-slate-100/60 rounded-xl border-2 border-blue-200/40 shadow-inner backdrop-blur-sm">
@@ -1120,6 +1345,14 @@ function GeneratePageContent() {
           </Card>
         </div>
         
+        {/* 分段重新生成失败提示 */}
+        {regenerateError && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-xl shadow-lg">
+            <span>重新生成失败：{regenerateError}</span>
+            <button onClick={() => setRegenerateError(null)} className="text-red-500 hover:text-red-700">✕</button>
+          </div>
+        )}
+
         {/* 回到顶部按钮 */}
         {showScrollTop && (
           <button
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { splitByHighlights } from '@/lib/ai-flavor'
+import type { AiFlavorLevel, AiFlavorReport, AiFlavorRule } from '@/lib/ai-flavor'
+
+const LEVEL_LABELS: Record<AiFlavorLevel, { label: string; className: string }> = {
+  low: { label: 'AI味较低', className: 'bg-green-100 text-green-700' },
+  medium: { label: 'AI味中等', className: 'bg-amber-100 text-amber-700' },
+  high: { label: 'AI味较重', className: 'bg-red-100 text-red-700' },
+};
+
+// 不同规则的高亮颜色
+const RULE_CLASS_NAMES: Record<AiFlavorRule, string> = {
+  template_connector: 'bg-amber-200/70',
+  banned_opener: 'bg-red-200/70',
+  repetitive_pattern: 'bg-purple-200/70',
+  uniform_paragraphs: 'bg-gray-200/70',
+  emoji_density: 'bg-pink-200/70',
+};
+
+/**
+ * AI味检测卡片：调用 /api/ai-flavor 给正文打分，并在原文中高亮命中的模板词、套话和重复句式
+ */
+export default function AiFlavorCard({ text }: { text: string }) {
+  const [report, setReport] = useState<AiFlavorReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!text.trim()) return;
+
+    // 正文变化（如重新生成分段）时取消上一次检测
+    const controller = new AbortController();
+    setError(null);
+    fetch('/api/ai-flavor', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text }),
+      signal: controller.signal,
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP ${response.status}`);
+        }
+        setReport(data);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('AI味检测失败:', err);
+        setError(err instanceof Error ? err.message : 'AI味检测失败');
+      });
+
+    return () => controller.abort();
+  }, [text]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 p-4 rounded-md text-sm text-red-700">⚠️ AI味检测失败：{error}</div>
+    );
+  }
+  if (!report) {
+    return null;
+  }
+
+  const level = LEVEL_LABELS[report.level];
+
+  return (
+    <Card className="animate-slide-up glass-card shadow-xl overflow-hidden bg-white/80 backdrop-blur-md border border-gray-200/60">
+      <CardHeader className="pb-3 px-4 sm:px-6 lg:px-8 pt-6">
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <span>🤖</span>
+          <span className="font-bold text-gray-800">AI味检测</span>
+          <Badge variant="tag" className={`ml-2 border-0 ${level.className}`}>{report.score} 分 · {level.label}</Badge>
+        </CardTitle>
+        <CardDescription className="text-sm text-gray-600 mt-1">
+          按模板连接词、高频套话、重复句式、段落长度和 emoji 密度打分，分数越高越像机器写的
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 lg:px-8 pb-6 space-y-4">
+        {report.issues.length > 0 ? (
+          <ul className="space-y-1 text-sm text-gray-700">
+            {report.issues.map(issue => (
+              <li key={issue.rule}>
+                <span className="text-red-500 font-semibold">+{issue.penalty}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-sm text-green-700">没有发现明显的AI写作痕迹</div>
+        )}
+        {report.highlights.length > 0 && (
+          <div className="whitespace-pre-wrap leading-relaxed text-sm text-gray-700 bg-white/80 border border-gray-200 rounded-xl p-4 max-h-[480px] overflow-y-auto">
+            {splitByHighlights(text, report.highlights).map((segment, index) => segment.highlight ? (
+              <mark key={index} title={segment.highlight.message} className={`${RULE_CLASS_NAMES[segment.highlight.rule]} text-inherit rounded-sm`}>
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
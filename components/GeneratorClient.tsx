@@ -1,13 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import RewritePanel from '@/components/RewritePanel'
+import TitleLabPanel from '@/components/TitleLabPanel'
+import ImageMaterialPanel from '@/components/ImageMaterialPanel'
 import { formatErrorForUser } from '@/lib/error-handler'
 import { FormData, ErrorState } from '@/lib/types'
+import { DEFAULT_PLATFORM, PLATFORM_IDS, PLATFORM_PROFILES, type PlatformId } from '@/lib/platforms'
 
 // Constants
 const UI_CONFIG = {
@@ -18,9 +22,18 @@ const UI_CONFIG = {
     keyword: '例如：护肤心得、美食探店、旅行攻略...',
     userInfo: '产品特点、个人感受、具体细节...越详细生成的文案越精准👍'
   },
-  buttonText: '开始生成爆款文案'
+  buttonText: '开始生成爆款文案',
+  // 一次生成的版本数，多个版本使用不同写作风格并排对比
+  candidateOptions: [1, 2, 3],
+  modes: [
+    { id: 'generate', label: '生成新笔记' },
+    { id: 'rewrite', label: '改写已有笔记' },
+    { id: 'titles', label: '只生成标题' }
+  ]
 } as const;
 
+type Mode = typeof UI_CONFIG.modes[number]['id'];
+
 // UI Components
 function BackgroundDecorations() {
   return (
@@ -127,7 +140,133 @@ function ErrorDisplay({ error, onRetry }: ErrorDisplayProps) {
   );
 }
 
-// Custom hooks
+interface ModeSwitchProps {
+  value: Mode;
+  onChange: (value: Mode) => void;
+}
+
+function ModeSwitch({ value, onChange }: ModeSwitchProps) {
+  return (
+    <div className="flex justify-center">
+      <div className="inline-flex p-1 rounded-2xl bg-white/70 border border-gray-200 shadow-sm">
+        {UI_CONFIG.modes.map(mode => (
+          <button
+            key={mode.id}
+            type="button"
+            onClick={() => onChange(mode.id)}
+            className={`px-4 sm:px-6 py-2 rounded-xl text-sm font-semibold transition-all duration-300 ${
+              value === mode.id
+                ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow'
+                : 'text-gray-600 hover:text-indigo-600'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface CandidateSelectorProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+function CandidateSelector({ value, onChange }: CandidateSelectorProps) {
+  return (
+    <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+      <span className="font-medium">生成版本数</span>
+      <div className="flex gap-2">
+        {UI_CONFIG.candidateOptions.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onChange(option)}
+            className={`w-9 h-9 rounded-xl border-2 font-semibold transition-all duration-300 ${
+              value === option
+                ? 'border-indigo-400 bg-indigo-50 text-indigo-700 shadow'
+                : 'border-gray-200 bg-white/70 hover:border-blue-300'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      {value > 1 && <span className="text-xs text-gray-500">不同写作风格并排对比</span>}
+    </div>
+  );
+}
+
+interface PlatformSelectorProps {
+  value: PlatformId;
+  onChange: (value: PlatformId) => void;
+}
+
+function PlatformSelector({ value, onChange }: PlatformSelectorProps) {
+  return (
+    <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+      <span className="font-medium">发布平台</span>
+      <div className="flex flex-wrap gap-2">
+        {PLATFORM_IDS.map(id => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onChange(id)}
+            className={`px-3 h-9 rounded-xl border-2 font-semibold transition-all duration-300 ${
+              value === id
+                ? 'border-indigo-400 bg-indigo-50 text-indigo-700 shadow'
+                : 'border-gray-200 bg-white/70 hover:border-blue-300'
+            }`}
+          >
+            {PLATFORM_PROFILES[id].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface BrandVoiceSelectorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// 品牌口吻由团队通过 /api/brand-voices 维护，没有配置时不显示
+function BrandVoiceSelector({ value, onChange }: BrandVoiceSelectorProps) {
+  const [options, setOptions] = useState<Array<{ id: string; name: string }>>([]);
+
+  useEffect(() => {
+    fetch('/api/brand-voices')
+      .then(response => response.json())
+      .then(data => {
+        if (Array.isArray(data.brandVoices)) {
+          setOptions(data.brandVoices.map(({ id, name }: { id: string; name: string }) => ({ id, name })));
+        }
+      })
+      .catch(err => console.error('获取品牌口吻失败:', err));
+  }, []);
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+      <label htmlFor="brandVoice" className="font-medium">品牌口吻</label>
+      <select
+        id="brandVoice"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-9 rounded-xl border-2 border-gray-200 bg-white/70 px-3 text-gray-700 focus:border-blue-400 focus:outline-none"
+      >
+        <option value="">不使用</option>
+        {options.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 function useFormValidation(formData: FormData) {
   const isValid = formData.keyword.trim() && formData.userInfo.trim();
   
@@ -149,6 +288,10 @@ export default function GeneratorClient() {
   });
   const [error, setError] = useState<ErrorState | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [brandVoiceId, setBrandVoiceId] = useState('');
+  const [platform, setPlatform] = useState<PlatformId>(DEFAULT_PLATFORM);
+  const [mode, setMode] = useState<Mode>('generate');
   
   const { isValid, validateAndGetError } = useFormValidation(formData);
 
@@ -157,6 +300,12 @@ export default function GeneratorClient() {
     if (error) setError(null); // Clear error when user starts typing
   };
 
+  // 图片识别出的事实核对后追加到素材末尾
+  const appendMaterial = (text: string) => {
+    setFormData(prev => ({ ...prev, userInfo: prev.userInfo.trim() ? `${prev.userInfo.trim()}\n\n${text}` : text }));
+    if (error) setError(null);
+  };
+
   const handleGenerate = () => {
     const validationError = validateAndGetError();
     if (validationError) {
@@ -172,6 +321,15 @@ export default function GeneratorClient() {
       keyword: formData.keyword.trim(),
       userInfo: formData.userInfo.trim()
     });
+    if (candidateCount > 1) {
+      params.set('candidates', String(candidateCount));
+    }
+    if (brandVoiceId) {
+      params.set('brandVoice', brandVoiceId);
+    }
+    if (platform !== DEFAULT_PLATFORM) {
+      params.set('platform', platform);
+    }
     
     router.push(`/generate?${params.toString()}`);
   };
@@ -217,53 +375,65 @@ export default function GeneratorClient() {
             </CardHeader>
             
             <CardContent className="space-y-6 px-4 sm:px-6 lg:px-8 pb-8 relative z-10">
-              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-                <FormField
-                  id="topic"
-                  label="文案主题"
-                  icon="🎯"
-                  required
-                  type="input"
-                  value={formData.keyword}
-                  onChange={updateFormField('keyword')}
-                  placeholder={UI_CONFIG.placeholders.keyword}
-                />
-                
-                <div className="xl:row-span-2">
+              <ModeSwitch value={mode} onChange={setMode} />
+
+              {mode === 'rewrite' ? <RewritePanel /> : mode === 'titles' ? <TitleLabPanel /> : (
+                <>
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
                   <FormField
-                    id="material"
-                    label="素材内容"
-                    icon="📝"
+                    id="topic"
+                    label="文案主题"
+                    icon="🎯"
                     required
-                    type="textarea"
-                    value={formData.userInfo}
-                    onChange={updateFormField('userInfo')}
-                    placeholder={UI_CONFIG.placeholders.userInfo}
+                    type="input"
+                    value={formData.keyword}
+                    onChange={updateFormField('keyword')}
+                    placeholder={UI_CONFIG.placeholders.keyword}
                   />
+                
+                  <div className="xl:row-span-2">
+                    <FormField
+                      id="material"
+                      label="素材内容"
+                      icon="📝"
+                      required
+                      type="textarea"
+                      value={formData.userInfo}
+                      onChange={updateFormField('userInfo')}
+                      placeholder={UI_CONFIG.placeholders.userInfo}
+                    />
+                  </div>
                 </div>
-              </div>
-
-              {error && <ErrorDisplay error={error} onRetry={handleRetry} />}
-
-              <div className="flex justify-center pt-6">
-                <Button 
-                  onClick={handleGenerate}
-                  disabled={!isValid || isGenerating}
-                  className="px-12 py-4 text-lg font-bold shadow-xl hover:shadow-2xl transition-all duration-500 w-full sm:w-auto max-w-sm group relative overflow-hidden bg-gradient-to-r from-blue-500 via-indigo-600 to-purple-600 hover:from-blue-400 hover:via-indigo-500 hover:to-purple-500 text-white border-0 rounded-2xl transform hover:scale-105 active:scale-95"
-                >
-                  <div className="flex items-center justify-center gap-3">
-                    <div className="w-8 h-8 bg-white/20 rounded-xl flex items-center justify-center backdrop-blur-sm">
-                      {isGenerating ? (
-                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                      ) : (
-                        <span className="text-xl group-hover:scale-110 transition-transform duration-300">⚡</span>
-                      )}
+
+                <ImageMaterialPanel keyword={formData.keyword} onAppend={appendMaterial} />
+
+                <PlatformSelector value={platform} onChange={setPlatform} />
+                <CandidateSelector value={candidateCount} onChange={setCandidateCount} />
+                <BrandVoiceSelector value={brandVoiceId} onChange={setBrandVoiceId} />
+
+                {error && <ErrorDisplay error={error} onRetry={handleRetry} />}
+
+                <div className="flex justify-center pt-6">
+                  <Button 
+                    onClick={handleGenerate}
+                    disabled={!isValid || isGenerating}
+                    className="px-12 py-4 text-lg font-bold shadow-xl hover:shadow-2xl transition-all duration-500 w-full sm:w-auto max-w-sm group relative overflow-hidden bg-gradient-to-r from-blue-500 via-indigo-600 to-purple-600 hover:from-blue-400 hover:via-indigo-500 hover:to-purple-500 text-white border-0 rounded-2xl transform hover:scale-105 active:scale-95"
+                  >
+                    <div className="flex items-center justify-center gap-3">
+                      <div className="w-8 h-8 bg-white/20 rounded-xl flex items-center justify-center backdrop-blur-sm">
+                        {isGenerating ? (
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                        ) : (
+                          <span className="text-xl group-hover:scale-110 transition-transform duration-300">⚡</span>
+                        )}
+                      </div>
+                      <span>{isGenerating ? '正在进入生成页面...' : UI_CONFIG.buttonText}</span>
                     </div>
-                    <span>{isGenerating ? '正在进入生成页面...' : UI_CONFIG.buttonText}</span>
-                  </div>
-                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent transform -translate-x-full group-hover:translate-x-full transition-transform duration-1000 ease-out"></div>
-                </Button>
-              </div>
+                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent transform -translate-x-full group-hover:translate-x-full transition-transform duration-1000 ease-out"></div>
+                  </Button>
+                </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { IMAGE_FACTS_CONFIG } from '@/lib/image-facts'
+
+// 上传前把图片缩小并转为 JPEG，控制请求体大小
+const MAX_IMAGE_SIDE = 1600;
+const JPEG_QUALITY = 0.85;
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('读取图片失败'));
+    reader.readAsDataURL(file);
+  });
+}
+
+async function compressImage(file: File): Promise<string> {
+  const source = await readFileAsDataUrl(file);
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error(`无法读取图片: ${file.name}`));
+    element.src = source;
+  });
+
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return source;
+  }
+  // 透明背景的 PNG 转 JPEG 时铺白底，避免变黑
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+interface ImageMaterialPanelProps {
+  keyword: string;
+  onAppend: (text: string) => void;
+}
+
+/**
+ * 图片素材：上传产品图或包装图，由模型提取可见的事实，用户核对修改后追加到素材内容
+ */
+export default function ImageMaterialPanel({ keyword, onAppend }: ImageMaterialPanelProps) {
+  const [images, setImages] = useState<string[]>([]);
+  const [facts, setFacts] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+
+    const selected = Array.from(files).slice(0, IMAGE_FACTS_CONFIG.MAX_IMAGES - images.length);
+    if (selected.length < files.length) {
+      setError(`最多上传 ${IMAGE_FACTS_CONFIG.MAX_IMAGES} 张图片`);
+    }
+    try {
+      const compressed = await Promise.all(selected.map(compressImage));
+      setImages(prev => prev.concat(compressed).slice(0, IMAGE_FACTS_CONFIG.MAX_IMAGES));
+    } catch (err) {
+      console.error('读取图片失败:', err);
+      setError(err instanceof Error ? err.message : '读取图片失败');
+    }
+  };
+
+  const handleExtract = async () => {
+    if (images.length === 0 || isExtracting) return;
+
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/image-facts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          images,
+          keyword: keyword.trim() || undefined,
+          priority: 'interactive',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      setFacts(data.text || '');
+      if (!data.text) {
+        setError('没有从图片中识别到可用的信息，请换一张更清晰的图片');
+      }
+    } catch (err) {
+      console.error('图片识别失败:', err);
+      setError(err instanceof Error ? err.message : '图片识别失败，请重试');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAppend = () => {
+    if (!facts?.trim()) return;
+    onAppend(facts.trim());
+    setFacts(null);
+    setImages([]);
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border-2 border-dashed border-gray-200 bg-white/60 p-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <span className="font-medium">🖼️ 从图片提取素材</span>
+        <span className="text-xs text-gray-400">上传产品图、包装或配料表，识别图上可见的名称、成分和规格（最多 {IMAGE_FACTS_CONFIG.MAX_IMAGES} 张）</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {images.map((image, index) => (
+          <div key={index} className="relative w-16 h-16 rounded-lg overflow-hidden border border-gray-200">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={image} alt={`图片${index + 1}`} className="w-full h-full object-cover" />
+            <button
+              type="button"
+              onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+              className="absolute top-0 right-0 w-5 h-5 bg-black/50 text-white text-xs leading-5"
+              aria-label="移除图片"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {images.length < IMAGE_FACTS_CONFIG.MAX_IMAGES && (
+          <label className="w-16 h-16 rounded-lg border-2 border-dashed border-gray-300 flex items-center justify-center text-2xl text-gray-400 cursor-pointer hover:border-blue-300">
+            +
+            <input
+              type="file"
+              accept={IMAGE_FACTS_CONFIG.ALLOWED_MIME_TYPES.join(',')}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleSelect(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+        {images.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleExtract} disabled={isExtracting}>
+            {isExtracting ? '正在识别...' : '识别图片信息'}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 p-3 rounded-md text-sm text-red-700">⚠️ {error}</div>
+      )}
+
+      {facts && (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-500">请核对识别结果，删改错误或不需要的内容后再添加到素材</div>
+          <Textarea
+            value={facts}
+            onChange={(e) => setFacts(e.target.value)}
+            className="border-2 border-gray-200/80 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 text-sm rounded-xl bg-white/80 text-gray-700 min-h-[120px] resize-y leading-relaxed"
+            rows={5}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAppend} disabled={!facts.trim()}>
+              添加到素材
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setFacts(null)}>
+              放弃
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { CONFIG } from '@/lib/constants'
+import type { TextDiff } from '@/lib/text-diff'
+
+interface RewriteResult {
+  variant: { id: string; label: string };
+  rewritten: string;
+  diff: TextDiff;
+  missingFacts: string[];
+}
+
+interface VariantOption {
+  id: string;
+  label: string;
+}
+
+function DiffView({ diff }: { diff: TextDiff }) {
+  return (
+    <div className="whitespace-pre-wrap leading-relaxed text-sm text-gray-700 bg-white/80 border border-gray-200 rounded-xl p-4 max-h-[480px] overflow-y-auto">
+      {diff.segments.map((segment, index) => {
+        if (segment.type === 'insert') {
+          return <ins key={index} className="bg-green-100 text-green-800 no-underline rounded-sm">{segment.text}</ins>;
+        }
+        if (segment.type === 'delete') {
+          return <del key={index} className="bg-red-100 text-red-700 rounded-sm">{segment.text}</del>;
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </div>
+  );
+}
+
+/**
+ * 改写已有笔记：粘贴草稿，按所选写作风格去AI味改写，并展示改动对比
+ */
+export default function RewritePanel() {
+  const [text, setText] = useState('');
+  const [variantId, setVariantId] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RewriteResult | null>(null);
+  const [view, setView] = useState<'diff' | 'result'>('diff');
+  const [copied, setCopied] = useState(false);
+  const [variantOptions, setVariantOptions] = useState<VariantOption[]>([]);
+
+  // 写作风格列表包含团队自定义的变体，从接口获取
+  useEffect(() => {
+    fetch('/api/variants')
+      .then(response => response.json())
+      .then(data => {
+        if (Array.isArray(data.variants)) {
+          setVariantOptions(data.variants.map(({ id, label }: VariantOption) => ({ id, label })));
+        }
+      })
+      .catch(err => console.error('获取写作风格失败:', err));
+  }, []);
+
+  const handleRewrite = async () => {
+    if (!text.trim() || isRewriting) return;
+
+    setIsRewriting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/rewrite', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text,
+          variantId: variantId || undefined,
+          priority: 'interactive',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      setResult(data);
+      setView('diff');
+    } catch (err) {
+      console.error('改写失败:', err);
+      setError(err instanceof Error ? err.message : '改写失败，请重试');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.rewritten);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <label htmlFor="draft" className="text-sm sm:text-base font-semibold text-gray-700 flex items-center gap-3">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-400 to-red-500 rounded-xl flex items-center justify-center text-white shadow-md">
+            ✏️
+          </div>
+          <span className="flex-1">待改写的笔记</span>
+          <span className="text-xs text-gray-400">{text.length}/{CONFIG.MAX_REWRITE_LENGTH}</span>
+        </label>
+        <Textarea
+          id="draft"
+          placeholder="粘贴一篇读起来像AI写的笔记，改写时会保留其中所有事实信息"
+          value={text}
+          maxLength={CONFIG.MAX_REWRITE_LENGTH}
+          onChange={(e) => setText(e.target.value)}
+          className="border-2 border-gray-200/80 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 text-base shadow-sm rounded-xl bg-white/80 text-gray-700 placeholder:text-gray-400 min-h-[200px] resize-y leading-relaxed"
+          rows={8}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-600">
+        <label htmlFor="variant" className="font-medium">目标写作风格</label>
+        <select
+          id="variant"
+          value={variantId}
+          onChange={(e) => setVariantId(e.target.value)}
+          className="h-9 rounded-xl border-2 border-gray-200 bg-white/70 px-3 text-gray-700 focus:border-blue-400 focus:outline-none"
+        >
+          <option value="">随机</option>
+          {variantOptions.map(variant => (
+            <option key={variant.id} value={variant.id}>{variant.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 p-4 rounded-md text-sm text-red-700">⚠️ {error}</div>
+      )}
+
+      <div className="flex justify-center">
+        <Button
+          onClick={handleRewrite}
+          disabled={!text.trim() || isRewriting}
+          className="px-12 py-4 text-lg font-bold shadow-xl w-full sm:w-auto max-w-sm bg-gradient-to-r from-blue-500 via-indigo-600 to-purple-600 hover:from-blue-400 hover:via-indigo-500 hover:to-purple-500 text-white border-0 rounded-2xl"
+        >
+          {isRewriting ? '正在改写...' : '一键去AI味'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold text-gray-700">改写结果</span>
+            <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">{result.variant.label}</span>
+            <span className="text-xs text-gray-500">改动约 {Math.round(result.diff.stats.changeRatio * 100)}%</span>
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setView(view === 'diff' ? 'result' : 'diff')}>
+                {view === 'diff' ? '只看改写后' : '查看改动'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? '已复制' : '复制'}
+              </Button>
+            </div>
+          </div>
+
+          {result.missingFacts.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 p-3 rounded-md text-xs text-amber-800">
+              以下原文信息在改写后未找到，请核对：{result.missingFacts.join('、')}
+            </div>
+          )}
+
+          {view === 'diff' ? (
+            <DiffView diff={result.diff} />
+          ) : (
+            <div className="whitespace-pre-wrap leading-relaxed text-sm text-gray-700 bg-white/80 border border-gray-200 rounded-xl p-4 max-h-[480px] overflow-y-auto">
+              {result.rewritten}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import type { ScoredTitle } from '@/lib/title-lab'
+
+// 一次生成的候选标题数
+const COUNT_OPTIONS = [20, 30, 50];
+
+function scoreClassName(score: number): string {
+  if (score >= 80) return 'bg-green-100 text-green-700';
+  if (score >= 60) return 'bg-blue-100 text-blue-700';
+  return 'bg-gray-100 text-gray-500';
+}
+
+/**
+ * 标题实验室：只生成标题，批量生成候选标题并按爆款公式、字数和敏感词打分排序
+ */
+export default function TitleLabPanel() {
+  const [keyword, setKeyword] = useState('');
+  const [userInfo, setUserInfo] = useState('');
+  const [count, setCount] = useState(30);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [titles, setTitles] = useState<ScoredTitle[]>([]);
+  const [analysisUsed, setAnalysisUsed] = useState(true);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const isValid = keyword.trim() && userInfo.trim();
+
+  const handleGenerate = async () => {
+    if (!isValid || isGenerating) return;
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/title-lab', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          user_info: userInfo.trim(),
+          count,
+          priority: 'interactive',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      setTitles(data.titles);
+      setAnalysisUsed(data.analysisUsed);
+    } catch (err) {
+      console.error('标题生成失败:', err);
+      setError(err instanceof Error ? err.message : '标题生成失败，请重试');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async (title: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(title);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <label htmlFor="title-keyword" className="text-sm sm:text-base font-semibold text-gray-700">🎯 文案主题</label>
+          <Input
+            id="title-keyword"
+            placeholder="例如：护肤心得、美食探店、旅行攻略..."
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            className="h-12 border-2 border-gray-200/80 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 text-base shadow-sm rounded-xl bg-white/80"
+          />
+        </div>
+        <div className="space-y-3">
+          <label htmlFor="title-material" className="text-sm sm:text-base font-semibold text-gray-700">📝 素材内容</label>
+          <Textarea
+            id="title-material"
+            placeholder="产品特点、个人感受、具体细节...标题只会基于这些素材创作"
+            value={userInfo}
+            onChange={(e) => setUserInfo(e.target.value)}
+            className="border-2 border-gray-200/80 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 text-base shadow-sm rounded-xl bg-white/80 min-h-[120px] resize-y leading-relaxed"
+            rows={4}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+        <span className="font-medium">候选标题数</span>
+        <div className="flex gap-2">
+          {COUNT_OPTIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setCount(option)}
+              className={`px-3 h-9 rounded-xl border-2 font-semibold transition-all duration-300 ${
+                count === option
+                  ? 'border-indigo-400 bg-indigo-50 text-indigo-700 shadow'
+                  : 'border-gray-200 bg-white/70 hover:border-blue-300'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 p-4 rounded-md text-sm text-red-700">⚠️ {error}</div>
+      )}
+
+      <div className="flex justify-center">
+        <Button
+          onClick={handleGenerate}
+          disabled={!isValid || isGenerating}
+          className="px-12 py-4 text-lg font-bold shadow-xl w-full sm:w-auto max-w-sm bg-gradient-to-r from-blue-500 via-indigo-600 to-purple-600 hover:from-blue-400 hover:via-indigo-500 hover:to-purple-500 text-white border-0 rounded-2xl"
+        >
+          {isGenerating ? '正在生成标题...' : '批量生成标题'}
+        </Button>
+      </div>
+
+      {titles.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-semibold text-gray-700">候选标题</span>
+            <span className="text-xs text-gray-500">共 {titles.length} 个，按得分排序</span>
+            {!analysisUsed && (
+              <span className="text-xs text-amber-600">暂无爆款分析，仅按字数、关键词和敏感词打分</span>
+            )}
+          </div>
+          <ol className="space-y-2">
+            {titles.map((item, index) => (
+              <li
+                key={item.title}
+                className={`flex items-start gap-3 p-3 rounded-xl border bg-white/80 ${item.withinLimit && item.sensitiveWords.length === 0 ? 'border-gray-200' : 'border-amber-300'}`}
+              >
+                <span className={`shrink-0 w-10 text-center text-xs font-bold rounded-full py-1 ${scoreClassName(item.score)}`}>{item.score}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-800 font-medium break-words">{item.title}</div>
+                  <div className="text-xs text-gray-500 mt-1">{item.reasons.join(' · ')}</div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleCopy(item.title, index)}>
+                  {copiedIndex === index ? '已复制' : '复制'}
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+/**
+ * AI味检测
+ * 按本地规则给文本的"机器感"打分：模板连接词、高频开头套话、重复句式、段落长度过于整齐、emoji 过密，
+ * 并标出命中的位置，便于在结果页高亮。规则与生成提示词中的写作风格要求对应，不调用模型
+ */
+
+export type AiFlavorRule =
+  | 'template_connector'
+  | 'banned_opener'
+  | 'repetitive_pattern'
+  | 'uniform_paragraphs'
+  | 'emoji_density';
+
+/**
+ * 文本中命中规则的位置，start / end 为字符串下标（end 不含）
+ */
+export interface AiFlavorHighlight {
+  start: number;
+  end: number;
+  text: string;
+  rule: AiFlavorRule;
+  message: string;
+}
+
+/**
+ * 单条规则的检测结果，penalty 为该规则的扣分
+ */
+export interface AiFlavorIssue {
+  rule: AiFlavorRule;
+  message: string;
+  penalty: number;
+}
+
+export type AiFlavorLevel = 'low' | 'medium' | 'high';
+
+export interface AiFlavorReport {
+  score: number; // 0-100，越高越像机器写的
+  level: AiFlavorLevel;
+  issues: AiFlavorIssue[];
+  highlights: AiFlavorHighlight[];
+  stats: {
+    sentences: number;
+    paragraphs: number;
+    emojiPerSentence: number;
+    paragraphLengthVariation: number; // 段落字数的变异系数，越小越整齐
+  };
+}
+
+/**
+ * 高亮切分后的文本片段，相邻的普通文本合并为一段
+ */
+export interface AiFlavorSegment {
+  text: string;
+  highlight: AiFlavorHighlight | null;
+}
+
+// AI味检测配置
+export const AI_FLAVOR_CONFIG = {
+  // 模板连接词（与提示词"避免:首先、其次、总之等模板词"对应）
+  TEMPLATE_CONNECTORS: ['首先', '其次', '再次', '总之', '总而言之', '综上所述', '总的来说', '值得一提的是', '不仅如此', '与此同时', '除此之外', '最重要的是'],
+  // 高频开头套话（与提示词中禁止的开头对应）
+  BANNED_OPENERS: ['今天来分享', '今天给大家分享', '今天和大家分享', '给大家安利', '姐妹们听我说', '宝子们', '家人们', '集美们'],
+  CONNECTOR_PENALTY: 8,
+  CONNECTOR_MAX_PENALTY: 32,
+  OPENER_PENALTY: 12,
+  OPENER_MAX_PENALTY: 36,
+  // 以相同字开头的句子达到该数量视为重复句式
+  REPEAT_MIN_COUNT: 3,
+  REPEAT_PREFIX_LENGTH: 2,
+  REPEAT_PENALTY: 6, // 每多一句重复扣分
+  REPEAT_MAX_PENALTY: 24,
+  // 段落数不少于该值且字数变异系数低于阈值时视为过于整齐
+  UNIFORM_MIN_PARAGRAPHS: 4,
+  UNIFORM_MAX_VARIATION: 0.25,
+  UNIFORM_PENALTY: 15,
+  // 句子数不少于该值，且带 emoji 的句子占比或平均每句 emoji 数超过阈值时视为过密
+  EMOJI_MIN_SENTENCES: 4,
+  EMOJI_SENTENCE_RATIO: 0.8,
+  EMOJI_PER_SENTENCE: 1.5,
+  EMOJI_PENALTY: 15,
+  // 分数等级
+  MEDIUM_SCORE: 30,
+  HIGH_SCORE: 60,
+} as const;
+
+// 目标为 ES5，需要 u 标志的正则用构造函数创建
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'gu');
+
+function countEmoji(text: string): number {
+  return (text.match(EMOJI_PATTERN) || []).length;
+}
+
+// 只保留汉字、字母和数字，用于比较句首和统计字数
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\u4e00-\u9fa5a-z0-9]/g, '');
+}
+
+interface TextSpan {
+  start: number;
+  text: string;
+}
+
+// 按句末标点和换行切句，保留每句在原文中的起始位置；句末标点后单独的 emoji 归入前一句
+function splitSentences(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const pattern = /[^。！？!?\n]+[。！？!?]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const previous = spans[spans.length - 1];
+    if (normalizeText(match[0])) {
+      spans.push({ start: match.index, text: match[0] });
+    } else if (previous && countEmoji(match[0]) > 0) {
+      previous.text = text.slice(previous.start, match.index + match[0].length);
+    }
+  }
+  return spans;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n+/).filter(paragraph => normalizeText(paragraph));
+}
+
+function findPhrases(text: string, phrases: readonly string[], rule: AiFlavorRule, message: string): AiFlavorHighlight[] {
+  const highlights: AiFlavorHighlight[] = [];
+  for (const phrase of phrases) {
+    let index = text.indexOf(phrase);
+    while (index !== -1) {
+      highlights.push({ start: index, end: index + phrase.length, text: phrase, rule, message });
+      index = text.indexOf(phrase, index + phrase.length);
+    }
+  }
+  return highlights;
+}
+
+// 以相同字开头的句子，高亮句首
+function findRepetitivePatterns(sentences: TextSpan[]): { highlights: AiFlavorHighlight[]; repeats: number } {
+  const groups = new Map<string, TextSpan[]>();
+  for (const sentence of sentences) {
+    const prefix = Array.from(normalizeText(sentence.text)).slice(0, AI_FLAVOR_CONFIG.REPEAT_PREFIX_LENGTH).join('');
+    if (prefix.length < AI_FLAVOR_CONFIG.REPEAT_PREFIX_LENGTH) continue;
+    groups.set(prefix, (groups.get(prefix) || []).concat(sentence));
+  }
+
+  const highlights: AiFlavorHighlight[] = [];
+  let repeats = 0;
+  groups.forEach((spans, prefix) => {
+    if (spans.length < AI_FLAVOR_CONFIG.REPEAT_MIN_COUNT) return;
+    repeats += spans.length - 1;
+    for (const span of spans) {
+      const offset = span.text.indexOf(prefix.charAt(0));
+      const start = span.start + Math.max(offset, 0);
+      const end = Math.min(start + prefix.length, span.start + span.text.length);
+      highlights.push({
+        start,
+        end,
+        text: span.text.slice(start - span.start, end - span.start),
+        rule: 'repetitive_pattern',
+        message: `${spans.length} 句都以「${prefix}」开头`,
+      });
+    }
+  });
+  return { highlights, repeats };
+}
+
+// 变异系数：标准差 / 平均值
+function getVariation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 检测文本的AI味，返回分数、各项问题和高亮位置
+ */
+export function detectAiFlavor(text: string): AiFlavorReport {
+  const issues: AiFlavorIssue[] = [];
+  const highlights: AiFlavorHighlight[] = [];
+  const sentences = splitSentences(text);
+  const paragraphs = splitParagraphs(text);
+
+  const connectors = findPhrases(text, AI_FLAVOR_CONFIG.TEMPLATE_CONNECTORS, 'template_connector', '模板连接词');
+  if (connectors.length > 0) {
+    highlights.push(...connectors);
+    issues.push({
+      rule: 'template_connector',
+      message: `使用模板连接词：${Array.from(new Set(connectors.map(item => item.text))).join('、')}`,
+      penalty: Math.min(connectors.length * AI_FLAVOR_CONFIG.CONNECTOR_PENALTY, AI_FLAVOR_CONFIG.CONNECTOR_MAX_PENALTY),
+    });
+  }
+
+  const openers = findPhrases(text, AI_FLAVOR_CONFIG.BANNED_OPENERS, 'banned_opener', '高频套话');
+  if (openers.length > 0) {
+    highlights.push(...openers);
+    issues.push({
+      rule: 'banned_opener',
+      message: `使用高频套话：${Array.from(new Set(openers.map(item => item.text))).join('、')}`,
+      penalty: Math.min(openers.length * AI_FLAVOR_CONFIG.OPENER_PENALTY, AI_FLAVOR_CONFIG.OPENER_MAX_PENALTY),
+    });
+  }
+
+  const repetitive = findRepetitivePatterns(sentences);
+  if (repetitive.repeats > 0) {
+    highlights.push(...repetitive.highlights);
+    issues.push({
+      rule: 'repetitive_pattern',
+      message: `句式重复：${Array.from(new Set(repetitive.highlights.map(item => item.message))).join('；')}`,
+      penalty: Math.min(repetitive.repeats * AI_FLAVOR_CONFIG.REPEAT_PENALTY, AI_FLAVOR_CONFIG.REPEAT_MAX_PENALTY),
+    });
+  }
+
+  const paragraphLengthVariation = getVariation(paragraphs.map(paragraph => normalizeText(paragraph).length));
+  if (paragraphs.length >= AI_FLAVOR_CONFIG.UNIFORM_MIN_PARAGRAPHS && paragraphLengthVariation < AI_FLAVOR_CONFIG.UNIFORM_MAX_VARIATION) {
+    issues.push({
+      rule: 'uniform_paragraphs',
+      message: `${paragraphs.length} 段字数过于接近，读起来像套模板`,
+      penalty: AI_FLAVOR_CONFIG.UNIFORM_PENALTY,
+    });
+  }
+
+  const emojiSentences = sentences.filter(sentence => countEmoji(sentence.text) > 0).length;
+  const emojiPerSentence = sentences.length > 0 ? countEmoji(text) / sentences.length : 0;
+  if (
+    sentences.length >= AI_FLAVOR_CONFIG.EMOJI_MIN_SENTENCES
+    && (emojiSentences / sentences.length >= AI_FLAVOR_CONFIG.EMOJI_SENTENCE_RATIO || emojiPerSentence > AI_FLAVOR_CONFIG.EMOJI_PER_SENTENCE)
+  ) {
+    issues.push({
+      rule: 'emoji_density',
+      message: `${emojiSentences}/${sentences.length} 句带 emoji，平均每句 ${roundRatio(emojiPerSentence)} 个`,
+      penalty: AI_FLAVOR_CONFIG.EMOJI_PENALTY,
+    });
+  }
+
+  const score = Math.min(100, issues.reduce((sum, issue) => sum + issue.penalty, 0));
+  const level: AiFlavorLevel = score >= AI_FLAVOR_CONFIG.HIGH_SCORE ? 'high' : score >= AI_FLAVOR_CONFIG.MEDIUM_SCORE ? 'medium' : 'low';
+
+  return {
+    score,
+    level,
+    issues,
+    highlights: mergeHighlights(highlights),
+    stats: {
+      sentences: sentences.length,
+      paragraphs: paragraphs.length,
+      emojiPerSentence: roundRatio(emojiPerSentence),
+      paragraphLengthVariation: roundRatio(paragraphLengthVariation),
+    },
+  };
+}
+
+// 按位置排序，去掉与前一个重叠的高亮
+function mergeHighlights(highlights: AiFlavorHighlight[]): AiFlavorHighlight[] {
+  const sorted = highlights.slice().sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: AiFlavorHighlight[] = [];
+  for (const highlight of sorted) {
+    const last = merged[merged.length - 1];
+    if (!last || highlight.start >= last.end) {
+      merged.push(highlight);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 按高亮位置把文本切成片段，用于渲染行内高亮
+ */
+export function splitByHighlights(text: string, highlights: AiFlavorHighlight[]): AiFlavorSegment[] {
+  const segments: AiFlavorSegment[] = [];
+  let cursor = 0;
+  for (const highlight of mergeHighlights(highlights)) {
+    if (highlight.end > text.length) continue;
+    if (highlight.start > cursor) {
+      segments.push({ text: text.slice(cursor, highlight.start), highlight: null });
+    }
+    segments.push({ text: text.slice(highlight.start, highlight.end), highlight });
+    cursor = highlight.end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlight: null });
+  }
+  return segments;
+}
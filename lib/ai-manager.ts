@@ -3,28 +3,47 @@
  * 提供重试机制、错误恢复和响应验证
  */
 
-import OpenAI from 'openai';
-import { getEnvVar, safeJsonParse } from './utils';
-import { CONFIG } from './constants';
-import { BusinessError } from './error-handler';
+import { safeJsonParse } from './utils';
+import { CONFIG, ERROR_MESSAGES } from './constants';
+import { BusinessError, CancelledError, throwIfCancelled } from './error-handler';
+import {
+  AIProviderAdapter,
+  ImageInput,
+  ModelEntry,
+  ProviderType,
+  TokenUsage,
+  createProviderAdapter
+} from './ai-providers';
+import { AITaskConfig, AITaskName, pickTemperature, resolveTaskConfig } from './ai-tasks';
+import { UsageRecord, calculateCost, estimateTokens, recordUsage } from './usage-tracker';
+import { HOT_POST_ANALYSIS_SCHEMA, SchemaNode, SchemaValidationResult, validateWithSchema } from './analysis-schema';
+import { getContinuationPrompt, getJsonRepairPrompt } from './prompts';
+import { CircuitPermit, circuitBreaker } from './circuit-breaker';
+import { withRecordReplay } from './ai-recorder';
+import { QueueTimeoutError, RequestPriority, concurrencyLimiter } from './concurrency-limiter';
+import type { HotPostAnalysis } from './types';
 
 // 调试日志控制
 const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
 
 /**
- * AI响应验证结果
+ * 结构化输出校验失败
+ * 携带原始输出和具体错误，下一次尝试据此生成修复提示词
  */
-interface ValidationResult {
-  isValid: boolean;
-  data: any;
-  errors: string[];
+class ResponseValidationError extends Error {
+  constructor(
+    public readonly rawContent: string,
+    public readonly errors: string[]
+  ) {
+    super(`AI响应验证失败: ${errors.join(', ')}`);
+    this.name = 'ResponseValidationError';
+  }
 }
 
 /**
  * 重试配置
  */
 interface RetryConfig {
-  maxRetries: number;
   baseDelay: number; // 基础延迟（毫秒）
   maxDelay: number; // 最大延迟（毫秒）
   backoffMultiplier: number; // 退避倍数
@@ -34,377 +53,430 @@ interface RetryConfig {
  * AI调用可选参数（用于降低同质化、按场景调参）
  */
 interface AICallOptions {
-  temperature?: number;
+  task?: AITaskName; // 任务名，决定模型链、温度、超时和重试次数；未指定时按调用方法取 analysis / generation
+  temperature?: number; // 显式指定时覆盖任务温度
+  route?: string; // 发起调用的 API 路由，用于用量统计
+  onUsage?: (record: UsageRecord) => void; // 调用结束后回调本次用量
+  onReset?: () => void; // 流式重试无法续写、需要从头输出时回调，调用方应清空已发出的内容
+  signal?: AbortSignal; // 客户端断开等取消信号，取消后立即中止上游请求且不再重试
+  priority?: RequestPriority; // 模型并发已满时的排队优先级，默认按批量请求处理
+  onQueue?: (info: { model: string; position: number }) => void; // 排队位置变化时回调
+  images?: ImageInput[]; // 随提示词附带的图片（仅 analyzeWithRetry 支持），需要任务模型链支持图片输入
+}
+
+/**
+ * 一次调用中各次尝试累计的用量
+ * 失败的重试、结构化输出的修复重问、断流前已输出的部分都会消耗 token，一并计入
+ */
+interface SpentUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // 任一尝试的用量为估算值
+  cost: number | null; // 任一有用量的尝试所用模型没有价格时为 null
 }
 
+// 续写时先缓冲的字符数，用于判断模型是续写还是从头重写，以及去除与已输出内容的重叠
+const CONTINUATION_PROBE_LENGTH = 200;
+
 /**
  * AI客户端管理器
  * 优化版：添加请求超时控制，适配 Vercel 180s 限制
  */
 export class AIManager {
-  private client: OpenAI | null = null;
-  // 优化重试配置：减少重试次数和延迟，避免超时
+  // 按提供方缓存适配器实例，降级链可以跨厂商
+  private adapters: Map<ProviderType, AIProviderAdapter> = new Map();
+  // 优化重试退避配置：减少延迟，避免超时（重试次数按任务配置，见 ai-tasks.ts）
   private retryConfig: RetryConfig = {
-    maxRetries: 1, // 从 2 次降低到 1 次，减少总等待时间
     baseDelay: 500, // 从 1000ms 降低到 500ms
     maxDelay: 3000, // 从 10000ms 降低到 3000ms
     backoffMultiplier: 2
   };
 
   /**
-   * 解析模型列表，支持多模型降级
+   * 解析任务配置（模型链、温度、超时、重试次数），支持多模型降级
+   * 模型链每项可写作 "provider:model"（如 gemini:gemini-2.5-flash），未写前缀时走 OpenAI 兼容接口
    */
-  private getModelList(): string[] {
-    const modelNames = getEnvVar('AI_MODEL_NAME', CONFIG.DEFAULT_AI_MODEL);
-    return modelNames.split(',').map(name => name.trim()).filter(name => name.length > 0);
-  }
-
-  /**
-   * 获取AI客户端实例
-   * 优化：添加请求超时配置
-   */
-  private getClient(): OpenAI {
-    if (!this.client) {
-      const apiUrl = getEnvVar('THIRD_PARTY_API_URL');
-      const apiKey = getEnvVar('THIRD_PARTY_API_KEY');
-
-      if (!apiUrl || !apiKey) {
-        throw new BusinessError(
-          'AI服务配置不完整',
-          'AI服务配置错误',
-          '请检查环境变量配置，确保API地址和密钥正确设置',
-          false
-        );
-      }
-
-      this.client = new OpenAI({
-        baseURL: apiUrl,
-        apiKey: apiKey,
-        // 默认超时设置为流式超时（较大值），具体请求会在调用时显式覆盖
-        // 这样可以确保流式请求不会被默认超时截断
-        timeout: CONFIG.AI_STREAM_TIMEOUT, // 120秒，由每次请求显式控制
-        maxRetries: 0, // 禁用 OpenAI SDK 内置重试，使用我们自己的重试逻辑
-      });
+  private getTaskConfig(task: AITaskName): AITaskConfig {
+    const taskConfig = resolveTaskConfig(task);
+    if (debugLoggingEnabled) {
+      console.log(`🧭 任务 ${task} 使用模型链: [${taskConfig.models.map(entry => entry.name).join(', ')}]`);
     }
-
-    return this.client;
+    return taskConfig;
   }
 
   /**
-   * 计算重试延迟时间
+   * 获取模型对应提供方的适配器实例
+   * 设置 AI_RECORD_MODE 时包装为录制/回放适配器
    */
-  private calculateDelay(attempt: number): number {
-    const delay = this.retryConfig.baseDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt);
-    return Math.min(delay, this.retryConfig.maxDelay);
+  private getAdapter(entry: ModelEntry): AIProviderAdapter {
+    let adapter = this.adapters.get(entry.provider);
+    if (!adapter) {
+      adapter = withRecordReplay(entry.provider, () => createProviderAdapter(entry.provider));
+      this.adapters.set(entry.provider, adapter);
+    }
+    return adapter;
   }
 
   /**
-   * 延迟函数
+   * 把一次尝试的用量计入累计用量
+   * 提供方未返回用量时按提示词和输出字符数估算；请求没有得到任何输出（连接失败、超时等）时不计
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private addAttemptUsage(
+    spent: SpentUsage,
+    entry: ModelEntry,
+    prompt: string,
+    output: string,
+    usage: TokenUsage | undefined
+  ): void {
+    if (!usage && !output) {
+      return;
+    }
+    const tokens: TokenUsage = usage || { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(output) };
+    const cost = calculateCost(entry.name, entry.model, tokens);
+    spent.promptTokens += tokens.promptTokens;
+    spent.completionTokens += tokens.completionTokens;
+    spent.estimated = spent.estimated || !usage;
+    spent.cost = spent.cost === null || cost === null ? null : Math.round((spent.cost + cost) * 1000000) / 1000000;
   }
 
   /**
-   * 验证JSON响应
+   * 记录一次调用的用量（成功、所有模型均失败或被取消时各记录一次），token 和成本为所有尝试的累计值
+   * 被取消时调用方已不再等待结果，只落盘不回调 onUsage
    */
-  private validateJsonResponse(content: string, expectedFields: string[] = []): ValidationResult {
-    const errors: string[] = [];
-
-    if (!content || content.trim() === '') {
-      errors.push('AI返回了空响应');
-      return { isValid: false, data: null, errors };
-    }
+  private trackUsage(
+    task: UsageRecord['task'],
+    entry: ModelEntry,
+    spent: SpentUsage,
+    stats: { fallbackCount: number; attempts: number; startTime: number; success: boolean; cancelled?: boolean },
+    options: AICallOptions
+  ): UsageRecord {
+    const { estimated } = spent;
+    const tokens: TokenUsage = { promptTokens: spent.promptTokens, completionTokens: spent.completionTokens };
+
+    const record: UsageRecord = {
+      timestamp: Date.now(),
+      route: options.route || 'unknown',
+      task,
+      model: entry.name,
+      provider: entry.provider,
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      totalTokens: tokens.promptTokens + tokens.completionTokens,
+      estimated,
+      cost: spent.cost,
+      fallbackCount: stats.fallbackCount,
+      attempts: stats.attempts,
+      durationMs: Date.now() - stats.startTime,
+      success: stats.success,
+    };
 
-    // 添加调试信息
     if (debugLoggingEnabled) {
-      console.log(`🔍 AI响应内容长度: ${content.length} 字符`);
-      console.log(`🔍 AI响应前100字符: ${content.substring(0, 100)}...`);
+      console.log(`📈 AI用量 [${record.route}/${task}] 模型: ${entry.name}, tokens: ${record.promptTokens}+${record.completionTokens}${estimated ? ' (估算)' : ''}, 降级: ${record.fallbackCount}次`);
     }
 
-    const parsed: any = safeJsonParse(content, null);
-    if (parsed === null) {
-      errors.push('AI返回的不是有效的JSON格式');
-      console.error('❌ JSON解析失败，原始内容:', content);
-      return { isValid: false, data: null, errors };
-    }
-
-    if (debugLoggingEnabled) {
-      console.log(`✅ JSON解析成功，包含字段: ${Object.keys(parsed).join(', ')}`);
+    // 落盘为异步操作，不阻塞响应
+    recordUsage(record);
+    if (!stats.cancelled) {
+      options.onUsage?.(record);
     }
+    return record;
+  }
 
-    // 检查必需字段
-    for (const field of expectedFields) {
-      if (!(field in parsed) || !parsed[field]) {
-        errors.push(`缺少必需字段: ${field}`);
-      }
+  /**
+   * 检查模型熔断状态，决定本次请求是否使用该模型
+   * @param force 降级链中没有任何模型可用时，最后一个模型仍强制尝试，避免请求未经尝试直接失败
+   * @returns 放行凭证，跳过该模型时返回 null；强制尝试不占用探测名额
+   */
+  private acquireModel(entry: ModelEntry, force: boolean): CircuitPermit | null {
+    const permit = circuitBreaker.tryAcquire(entry.name);
+    if (permit) {
+      return permit;
     }
-
-    // 兼容旧版本的rules验证
-    if (expectedFields.includes('rules')) {
-      if (!Array.isArray(parsed.rules) || parsed.rules.length === 0) {
-        errors.push('rules字段应该是非空数组');
-      } else if (debugLoggingEnabled) {
-        console.log(`✅ rules数组包含 ${parsed.rules.length} 个规律`);
+    if (force) {
+      if (debugLoggingEnabled) {
+        console.warn(`🔌 所有模型均处于熔断状态，强制尝试最后一个模型: ${entry.name}`);
       }
+      return { probeToken: 0 };
     }
-
-    // 新版本爆款公式报告的验证
-    if (expectedFields.includes('titleFormulas')) {
-      this.validateTitleFormulas(parsed.titleFormulas, errors);
-    }
-
-    if (expectedFields.includes('contentStructure')) {
-      this.validateContentStructure(parsed.contentStructure, errors);
-    }
-
-    if (expectedFields.includes('tagStrategy')) {
-      this.validateTagStrategy(parsed.tagStrategy, errors);
-    }
-
-    if (expectedFields.includes('coverStyleAnalysis')) {
-      this.validateCoverStyleAnalysis(parsed.coverStyleAnalysis, errors);
+    if (debugLoggingEnabled) {
+      console.log(`⏭️ 模型 ${entry.name} 处于熔断状态，跳过`);
     }
-
-    return {
-      isValid: errors.length === 0,
-      data: parsed,
-      errors
-    };
+    return null;
   }
 
   /**
-   * 验证标题公式结构
+   * 处理续写输出的开头部分
+   * - 模型没有续写而是从头重写：通知调用方重置，整段作为全新输出
+   * - 模型重复了已输出内容的结尾：去掉重叠部分
    */
-  private validateTitleFormulas(titleFormulas: any, errors: string[]): void {
-    if (!titleFormulas || typeof titleFormulas !== 'object') {
-      errors.push('titleFormulas字段缺失或格式错误');
-      return;
-    }
-
-    if (!Array.isArray(titleFormulas.suggestedFormulas) || titleFormulas.suggestedFormulas.length === 0) {
-      errors.push('titleFormulas.suggestedFormulas应该是非空数组');
-    } else if (debugLoggingEnabled) {
-      console.log(`✅ 标题公式包含 ${titleFormulas.suggestedFormulas.length} 个公式`);
+  private resolveContinuationHead(
+    emittedText: string,
+    head: string,
+    options: AICallOptions
+  ): { text: string; restarted: boolean } {
+    const emittedStart = emittedText.trimStart().substring(0, 30);
+    if (emittedStart.length >= 10 && head.trimStart().startsWith(emittedStart)) {
+      if (debugLoggingEnabled) {
+        console.warn('🔁 续写输出从头开始，通知调用方重置已输出内容');
+      }
+      options.onReset?.();
+      return { text: head, restarted: true };
     }
 
-    if (!Array.isArray(titleFormulas.commonKeywords)) {
-      errors.push('titleFormulas.commonKeywords应该是数组');
+    const maxOverlap = Math.min(head.length, emittedText.length, CONTINUATION_PROBE_LENGTH);
+    for (let length = maxOverlap; length >= 8; length--) {
+      if (emittedText.endsWith(head.substring(0, length))) {
+        if (debugLoggingEnabled) {
+          console.log(`✂️ 去除续写开头与已输出内容重叠的 ${length} 个字符`);
+        }
+        return { text: head.substring(length), restarted: false };
+      }
     }
+    return { text: head, restarted: false };
   }
 
   /**
-   * 验证内容结构
+   * 获取模型的并发许可，并发已满时按优先级排队
+   * 排队最多等到剩余时间只剩 5 秒，保证拿到许可后仍有时间完成请求
    */
-  private validateContentStructure(contentStructure: any, errors: string[]): void {
-    if (!contentStructure || typeof contentStructure !== 'object') {
-      errors.push('contentStructure字段缺失或格式错误');
-      return;
-    }
-
-    if (!Array.isArray(contentStructure.openingHooks) || contentStructure.openingHooks.length === 0) {
-      errors.push('contentStructure.openingHooks应该是非空数组');
-    }
-
-    if (!Array.isArray(contentStructure.endingHooks) || contentStructure.endingHooks.length === 0) {
-      errors.push('contentStructure.endingHooks应该是非空数组');
-    }
-
-    if (!contentStructure.bodyTemplate || typeof contentStructure.bodyTemplate !== 'string') {
-      errors.push('contentStructure.bodyTemplate应该是字符串');
-    }
-
-    if (debugLoggingEnabled) {
-      console.log(`✅ 内容结构验证通过：${contentStructure.openingHooks?.length || 0}个开头，${contentStructure.endingHooks?.length || 0}个结尾`);
-    }
+  private acquireSlot(entry: ModelEntry, options: AICallOptions, remainingTime: number): Promise<() => void> {
+    return concurrencyLimiter.acquire(entry, {
+      priority: options.priority || 'batch',
+      timeoutMs: remainingTime - 5000,
+      signal: options.signal,
+      onQueued: position => options.onQueue?.({ model: entry.name, position }),
+    });
   }
 
   /**
-   * 验证标签策略
+   * 计算重试延迟时间
    */
-  private validateTagStrategy(tagStrategy: any, errors: string[]): void {
-    if (!tagStrategy || typeof tagStrategy !== 'object') {
-      errors.push('tagStrategy字段缺失或格式错误');
-      return;
-    }
+  private calculateDelay(attempt: number): number {
+    const delay = this.retryConfig.baseDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt);
+    return Math.min(delay, this.retryConfig.maxDelay);
+  }
 
-    if (debugLoggingEnabled) {
-      console.log(`🔍 tagStrategy结构:`, JSON.stringify(tagStrategy, null, 2));
-    }
+  /**
+   * 延迟函数
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
 
-    // 检查 commonTags 字段
-    if (!tagStrategy.commonTags) {
-      if (debugLoggingEnabled) {
-        console.log(`⚠️ commonTags字段不存在，尝试从其他字段提取`);
-      }
-      // 如果 commonTags 不存在，尝试从 tagCategories 中提取
-      if (tagStrategy.tagCategories) {
-        const extractedTags = [];
-        if (Array.isArray(tagStrategy.tagCategories.coreKeywords)) {
-          extractedTags.push(...tagStrategy.tagCategories.coreKeywords);
-        }
-        if (Array.isArray(tagStrategy.tagCategories.longTailKeywords)) {
-          extractedTags.push(...tagStrategy.tagCategories.longTailKeywords);
-        }
-        tagStrategy.commonTags = extractedTags.slice(0, 10); // 取前10个作为常用标签
-        if (debugLoggingEnabled) {
-          console.log(`🔧 自动生成commonTags:`, tagStrategy.commonTags);
-        }
-      } else {
-        tagStrategy.commonTags = []; // 设置默认空数组
-      }
-    } else if (!Array.isArray(tagStrategy.commonTags)) {
-      if (debugLoggingEnabled) {
-        console.log(`⚠️ commonTags不是数组，类型为:`, typeof tagStrategy.commonTags);
-        console.log(`⚠️ commonTags内容:`, tagStrategy.commonTags);
-      }
-      errors.push('tagStrategy.commonTags应该是数组');
+  /**
+   * 验证JSON响应：解析后按 schema 校验并补齐默认值
+   */
+  private validateJsonResponse<T>(content: string, schema: SchemaNode): SchemaValidationResult<T | null> {
+    if (!content || content.trim() === '') {
+      return { isValid: false, data: null, errors: ['AI返回了空响应'] };
     }
 
+    // 添加调试信息
     if (debugLoggingEnabled) {
-      console.log(`✅ 标签策略验证通过：${tagStrategy.commonTags?.length || 0}个常用标签`);
+      console.log(`🔍 AI响应内容长度: ${content.length} 字符`);
+      console.log(`🔍 AI响应前100字符: ${content.substring(0, 100)}...`);
     }
-  }
 
-  /**
-   * 验证封面风格分析
-   */
-  private validateCoverStyleAnalysis(coverStyleAnalysis: any, errors: string[]): void {
-    if (!coverStyleAnalysis || typeof coverStyleAnalysis !== 'object') {
-      errors.push('coverStyleAnalysis字段缺失或格式错误');
-      return;
+    const parsed: any = safeJsonParse(content, null);
+    if (parsed === null) {
+      console.error('❌ JSON解析失败，原始内容:', content);
+      return { isValid: false, data: null, errors: ['AI返回的不是有效的JSON格式'] };
     }
 
-    if (!Array.isArray(coverStyleAnalysis.commonStyles) || coverStyleAnalysis.commonStyles.length === 0) {
-      errors.push('coverStyleAnalysis.commonStyles应该是非空数组');
+    if (debugLoggingEnabled && typeof parsed === 'object') {
+      console.log(`✅ JSON解析成功，包含字段: ${Object.keys(parsed).join(', ')}`);
     }
 
+    const validation = validateWithSchema<T>(parsed, schema);
     if (debugLoggingEnabled) {
-      console.log(`✅ 封面风格分析验证通过：${coverStyleAnalysis.commonStyles?.length || 0}个风格`);
+      console.log(validation.isValid
+        ? '✅ JSON结构校验通过'
+        : `⚠️ JSON结构校验失败: ${validation.errors.join(', ')}`);
     }
+    return validation;
   }
 
   /**
    * 带重试的AI分析调用（支持多模型降级）
+   * 输出未通过 schema 校验时，下一次尝试会带上具体错误让模型修复，而不是原样重试
    * @param prompt 提示词
-   * @param expectedFields 期望的响应字段
+   * @param schema 响应结构 schema，默认为爆款分析报告
    * @param overallTimeoutMs 整体超时时间（毫秒），用于动态控制剩余执行时间
    */
-  async analyzeWithRetry(
+  async analyzeWithRetry<T = HotPostAnalysis>(
     prompt: string,
-    expectedFields: string[] = ['titleFormulas', 'contentStructure', 'tagStrategy', 'coverStyleAnalysis'],
+    schema: SchemaNode = HOT_POST_ANALYSIS_SCHEMA,
     overallTimeoutMs: number = CONFIG.VERCEL_SAFE_TIMEOUT,
     options: AICallOptions = {}
-  ): Promise<any> {
-    const modelList = this.getModelList();
+  ): Promise<T> {
+    const task = options.task || 'analysis';
+    const taskConfig = this.getTaskConfig(task);
+    const modelList = taskConfig.models;
+    const maxRetries = taskConfig.maxRetries;
     let lastError: Error | null = null;
+    // 最近一次校验失败的输出，存在时下一次尝试改用修复提示词
+    let pendingRepair: ResponseValidationError | null = null;
+    const spent: SpentUsage = { promptTokens: 0, completionTokens: 0, estimated: false, cost: 0 };
     const startTime = Date.now();
     const getRemainingTime = () => overallTimeoutMs - (Date.now() - startTime);
+    let totalAttempts = 0;
+    let lastTriedModel = modelList[0];
+    // 取消前已发出的尝试同样消耗了 token，记录后再结束
+    const trackCancelled = () => {
+      if (totalAttempts === 0) return;
+      this.trackUsage(task, lastTriedModel, spent, {
+        fallbackCount: modelList.indexOf(lastTriedModel),
+        attempts: totalAttempts,
+        startTime,
+        success: false,
+        cancelled: true
+      }, options);
+    };
 
     // 遍历所有可用模型
     for (let modelIndex = 0; modelIndex < modelList.length; modelIndex++) {
       const currentModel = modelList[modelIndex];
 
-      // 对每个模型进行重试
-      for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-        // 检查剩余时间
-        const remainingTime = getRemainingTime();
-        if (remainingTime <= 5000) { // 预留 5 秒缓冲
-          lastError = new Error('AI分析已超过剩余执行时间');
-          if (debugLoggingEnabled) {
-            console.warn(`⏱️ 剩余时间不足 (${remainingTime}ms)，停止重试`);
+      const permit = this.acquireModel(currentModel, modelIndex === modelList.length - 1 && totalAttempts === 0);
+      if (!permit) {
+        lastError = lastError || new Error(`模型 ${currentModel.name} 处于熔断状态`);
+        continue;
+      }
+
+      try {
+        // 对每个模型进行重试
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+          // 检查剩余时间
+          const remainingTime = getRemainingTime();
+          if (remainingTime <= 5000) { // 预留 5 秒缓冲
+            lastError = new Error('AI分析已超过剩余执行时间');
+            if (debugLoggingEnabled) {
+              console.warn(`⏱️ 剩余时间不足 (${remainingTime}ms)，停止重试`);
+            }
+            break;
           }
-          break;
-        }
 
-        try {
-          if (debugLoggingEnabled) {
-            console.log(`🤖 AI分析尝试 ${attempt + 1}/${this.retryConfig.maxRetries + 1} (模型: ${currentModel}, 剩余: ${Math.round(remainingTime / 1000)}s)`);
+          if (options.signal?.aborted) {
+            console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}，停止AI分析`);
+            trackCancelled();
+            throw new CancelledError();
           }
 
-          const client = this.getClient();
+          totalAttempts++;
+          lastTriedModel = currentModel;
+          let release: (() => void) | null = null;
 
-          // 为Gemini模型调整请求参数
-          // 分析任务更偏“结构化/稳定”，默认温度更低
-          const temperature = typeof options.temperature === 'number'
-            ? options.temperature
-            : (CONFIG.ANALYSIS_TEMPERATURE ?? CONFIG.TEMPERATURE);
+          try {
+            if (debugLoggingEnabled) {
+              console.log(`🤖 AI分析尝试 ${attempt + 1}/${maxRetries + 1} (模型: ${currentModel.name}, 剩余: ${Math.round(remainingTime / 1000)}s)`);
+            }
 
-          const requestParams: any = {
-            model: currentModel,
-            messages: [{ role: "user", content: prompt }],
-            temperature,
-          };
+            const adapter = this.getAdapter(currentModel);
+            release = await this.acquireSlot(currentModel, options, remainingTime);
+
+            // 温度按任务配置（分析任务默认更低），调用方显式指定时优先
+            const temperature = typeof options.temperature === 'number'
+              ? options.temperature
+              : pickTemperature(taskConfig.temperature);
+
+            // 动态计算请求超时：取配置超时和剩余时间的较小值
+            // 注意：不设置max_tokens，让模型自然生成完整响应；JSON 模式的厂商差异由适配器处理
+            // 排队会消耗时间，按拿到许可后的剩余时间计算
+            const requestTimeout = Math.min(taskConfig.timeout, getRemainingTime() - 2000);
+            const requestPrompt = pendingRepair
+              ? getJsonRepairPrompt(prompt, pendingRepair.rawContent, pendingRepair.errors)
+              : prompt;
+            if (pendingRepair && debugLoggingEnabled) {
+              console.log(`🔧 使用修复提示词重新请求，待修复问题 ${pendingRepair.errors.length} 个`);
+            }
 
-          // 只有在非Gemini模型时才使用response_format
-          // Gemini模型对json_object格式支持有限，可能导致空响应
-          if (!currentModel.toLowerCase().includes('gemini')) {
-            requestParams.response_format = { type: "json_object" };
-          }
-          // 注意：不设置max_tokens，让模型自然生成完整响应
-
-          // 动态计算请求超时：取配置超时和剩余时间的较小值
-          const requestTimeout = Math.min(CONFIG.AI_REQUEST_TIMEOUT, remainingTime - 2000);
-          const response = await client.chat.completions.create(requestParams, { timeout: requestTimeout });
-
-          // [核心修复] 增加对 response.choices 的有效性检查
-          if (!response || !response.choices || response.choices.length === 0) {
-            console.error('❌ AI响应结构异常或choices为空');
-            console.error('📊 响应对象存在:', !!response);
-            console.error('📊 choices字段存在:', !!(response && response.choices));
-            console.error('📊 choices长度:', response && response.choices ? response.choices.length : 'N/A');
-            console.error('📊 响应结构:', response ? Object.keys(response) : 'response为null/undefined');
-            console.error('📊 模型:', currentModel);
-            console.error('📊 尝试次数:', attempt + 1);
-
-            // 只在调试模式下输出完整响应，避免日志过长
-            if (debugLoggingEnabled && response) {
-              console.error('📄 完整响应:', JSON.stringify(response, null, 2));
+            const response = await adapter.complete(
+              { model: currentModel.model, prompt: requestPrompt, temperature, jsonMode: true, images: options.images },
+              { timeout: requestTimeout, signal: options.signal, source: { route: options.route || 'unknown', task } }
+            );
+            // 无论本次输出能否通过校验，都已消耗 token
+            this.addAttemptUsage(spent, currentModel, requestPrompt, response.content, response.usage);
+
+            const content = response.content;
+            if (!content || content.trim() === '') {
+              // 检查finish_reason来提供更详细的错误信息
+              const finishReason = response.finishReason;
+              if (finishReason === 'length') {
+                throw new Error('AI响应被截断，可能是因为max_tokens设置过小或模型对JSON格式支持有限');
+              } else if (finishReason === 'content_filter') {
+                throw new Error('AI响应被内容过滤器阻止');
+              } else {
+                throw new Error(`AI返回了空响应，finish_reason: ${finishReason}`);
+              }
             }
 
-            throw new Error(`AI响应结构异常，缺少choices字段或choices为空数组 (模型: ${currentModel}, 尝试: ${attempt + 1})`);
-          }
+            // 验证响应
+            const validation = this.validateJsonResponse<T>(content, schema);
+            if (!validation.isValid || validation.data === null) {
+              throw new ResponseValidationError(content, validation.errors);
+            }
 
-          const content = response.choices[0]?.message?.content;
-          if (!content || content.trim() === '') {
-            // 检查finish_reason来提供更详细的错误信息
-            const finishReason = response.choices[0]?.finish_reason;
-            if (finishReason === 'length') {
-              throw new Error('AI响应被截断，可能是因为max_tokens设置过小或模型对JSON格式支持有限');
-            } else if (finishReason === 'content_filter') {
-              throw new Error('AI响应被内容过滤器阻止');
-            } else {
-              throw new Error(`AI返回了空响应，finish_reason: ${finishReason}`);
+            if (debugLoggingEnabled) {
+              console.log(`✅ AI分析成功 (模型: ${currentModel.name})`);
+            }
+            circuitBreaker.recordSuccess(currentModel.name);
+            release();
+            this.trackUsage(task, currentModel, spent, {
+              fallbackCount: modelIndex,
+              attempts: totalAttempts,
+              startTime,
+              success: true
+            }, options);
+            return validation.data;
+
+          } catch (error) {
+            release?.();
+
+            // 取消不是模型故障：不重试、不降级、不计入熔断
+            if (options.signal?.aborted) {
+              console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}，已中止模型 ${currentModel.name} 的分析请求`);
+              trackCancelled();
+              throw new CancelledError();
             }
-          }
 
-          // 验证响应
-          const validation = this.validateJsonResponse(content, expectedFields);
-          if (!validation.isValid) {
-            throw new Error(`AI响应验证失败: ${validation.errors.join(', ')}`);
-          }
+            lastError = error instanceof Error ? error : new Error(String(error));
 
-          if (debugLoggingEnabled) {
-            console.log(`✅ AI分析成功 (模型: ${currentModel})`);
-          }
-          return validation.data;
+            if (debugLoggingEnabled) {
+              console.warn(`⚠️ 模型 ${currentModel.name} 尝试 ${attempt + 1} 失败:`, lastError.message);
+            }
 
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
+            // 校验失败不是瞬时故障，直接进入修复尝试，无需退避等待；模型本身可用，不计入熔断
+            if (error instanceof ResponseValidationError) {
+              pendingRepair = error;
+              continue;
+            }
 
-          if (debugLoggingEnabled) {
-            console.warn(`⚠️ 模型 ${currentModel} 尝试 ${attempt + 1} 失败:`, lastError.message);
-          }
+            // 排队超时说明该模型繁忙而非故障：不计入熔断，直接尝试下一个模型
+            if (error instanceof QueueTimeoutError) {
+              break;
+            }
 
-          // 如果不是最后一次尝试，等待后重试
-          if (attempt < this.retryConfig.maxRetries) {
-            const delayMs = this.calculateDelay(attempt);
-            if (debugLoggingEnabled) {
-              console.log(`⏳ 等待 ${delayMs}ms 后重试...`);
+            // 已熔断的模型不再重试，直接切换下一个模型
+            circuitBreaker.recordFailure(currentModel.name, lastError);
+            if (circuitBreaker.isOpen(currentModel.name)) {
+              break;
+            }
+
+            // 如果不是最后一次尝试，等待后重试
+            if (attempt < maxRetries) {
+              const delayMs = this.calculateDelay(attempt);
+              if (debugLoggingEnabled) {
+                console.log(`⏳ 等待 ${delayMs}ms 后重试...`);
+              }
+              await this.delay(delayMs);
             }
-            await this.delay(delayMs);
           }
         }
+      } finally {
+        // 半开探测以取消、排队超时、校验失败等不计入熔断的结果结束时，归还探测名额
+        if (permit.probeToken) {
+          circuitBreaker.releaseProbe(currentModel.name, permit.probeToken);
+        }
       }
 
       // 检查剩余时间，如果不足则不再切换模型
@@ -418,14 +490,23 @@ export class AIManager {
       // 当前模型的所有重试都失败了，尝试下一个模型
       if (modelIndex < modelList.length - 1) {
         if (debugLoggingEnabled) {
-          console.log(`🔄 模型 ${currentModel} 失败，尝试下一个模型: ${modelList[modelIndex + 1]}`);
+          console.log(`🔄 模型 ${currentModel.name} 失败，尝试下一个模型: ${modelList[modelIndex + 1].name}`);
         }
       }
     }
 
     // 所有模型和重试都失败了
+    if (lastTriedModel) {
+      this.trackUsage(task, lastTriedModel, spent, {
+        fallbackCount: modelList.indexOf(lastTriedModel),
+        attempts: totalAttempts,
+        startTime,
+        success: false
+      }, options);
+    }
+
     throw new BusinessError(
-      `AI分析失败，已尝试所有模型 [${modelList.join(', ')}]，每个模型重试${this.retryConfig.maxRetries}次: ${lastError?.message}`,
+      `AI分析失败，已尝试所有模型 [${modelList.map(entry => entry.name).join(', ')}]，每个模型重试${maxRetries}次: ${lastError?.message}`,
       'AI分析失败',
       '请稍后重试，如果问题持续请联系技术支持',
       true
@@ -434,6 +515,8 @@ export class AIManager {
 
   /**
    * 带重试的流式生成调用（支持多模型降级）
+   * 已发出部分内容后断流时，重试改用续写提示词从断点继续，避免客户端收到重复内容；
+   * 模型未能续写而是从头重写时通过 options.onReset 通知调用方
    * @param prompt 提示词
    * @param onChunk 内容块回调
    * @param onError 错误回调
@@ -446,108 +529,215 @@ export class AIManager {
     overallTimeoutMs: number = CONFIG.VERCEL_SAFE_TIMEOUT,
     options: AICallOptions = {}
   ): Promise<void> {
-    const modelList = this.getModelList();
+    const task = options.task || 'generation';
+    const taskConfig = this.getTaskConfig(task);
+    const modelList = taskConfig.models;
+    const maxRetries = taskConfig.maxRetries;
     let lastError: Error | null = null;
+    const spent: SpentUsage = { promptTokens: 0, completionTokens: 0, estimated: false, cost: 0 };
     const startTime = Date.now();
     const getRemainingTime = () => overallTimeoutMs - (Date.now() - startTime);
+    let totalAttempts = 0;
+    let lastTriedModel = modelList[0];
+    // 取消前已发出的尝试同样消耗了 token，记录后再结束
+    const trackCancelled = () => {
+      if (totalAttempts === 0) return;
+      this.trackUsage(task, lastTriedModel, spent, {
+        fallbackCount: modelList.indexOf(lastTriedModel),
+        attempts: totalAttempts,
+        startTime,
+        success: false,
+        cancelled: true
+      }, options);
+    };
+    // 已通过 onChunk 发出的内容，断流重试时据此续写
+    let emittedText = '';
+    const emit = (text: string) => {
+      if (!text) return;
+      emittedText += text;
+      onChunk(text);
+    };
 
     // 遍历所有可用模型
     for (let modelIndex = 0; modelIndex < modelList.length; modelIndex++) {
       const currentModel = modelList[modelIndex];
 
-      // 对每个模型进行重试
-      for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-        // 检查剩余时间
-        const remainingTime = getRemainingTime();
-        if (remainingTime <= 5000) {
-          lastError = new Error('流式生成已超过剩余执行时间');
-          if (debugLoggingEnabled) {
-            console.warn(`⏱️ 剩余时间不足 (${remainingTime}ms)，停止重试`);
-          }
-          break;
-        }
-        try {
-          if (debugLoggingEnabled) {
-            console.log(`🤖 流式生成尝试 ${attempt + 1}/${this.retryConfig.maxRetries + 1} (模型: ${currentModel}, 剩余: ${Math.round(remainingTime / 1000)}s)`);
-          }
+      const permit = this.acquireModel(currentModel, modelIndex === modelList.length - 1 && totalAttempts === 0);
+      if (!permit) {
+        lastError = lastError || new Error(`模型 ${currentModel.name} 处于熔断状态`);
+        continue;
+      }
 
-          const client = this.getClient();
-          // 动态计算请求超时：取配置超时和剩余时间的较小值
-          const requestTimeout = Math.min(CONFIG.AI_STREAM_TIMEOUT, remainingTime - 2000);
-          // 生成任务更偏“内容多样性”，默认允许更高温度，必要时由调用方覆盖
-          const temperature = typeof options.temperature === 'number'
-            ? options.temperature
-            : CONFIG.TEMPERATURE;
-          const response = await client.chat.completions.create(
-            {
-              model: currentModel,
-              messages: [{ role: "user", content: prompt }],
-              stream: true,
-              temperature,
-            },
-            { timeout: requestTimeout }
-          );
-
-        let hasContent = false;
-        let lastChunkTime = Date.now();
-
-        for await (const chunk of response) {
-          // 检查剩余时间，防止流式生成超时
-          if (getRemainingTime() <= 2000) {
+      try {
+        // 对每个模型进行重试
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+          // 检查剩余时间
+          const remainingTime = getRemainingTime();
+          if (remainingTime <= 5000) {
+            lastError = new Error('流式生成已超过剩余执行时间');
             if (debugLoggingEnabled) {
-              console.warn(`⏱️ 流式生成剩余时间不足，提前结束`);
+              console.warn(`⏱️ 剩余时间不足 (${remainingTime}ms)，停止重试`);
             }
             break;
           }
+          if (options.signal?.aborted) {
+            console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}，停止流式生成`);
+            trackCancelled();
+            onError(new CancelledError());
+            return;
+          }
+
+          totalAttempts++;
+          lastTriedModel = currentModel;
+          let release: (() => void) | null = null;
+          // 本次尝试的提示词、输出和用量，失败时同样计入累计用量
+          let requestPrompt = prompt;
+          let generatedText = '';
+          let streamUsage: TokenUsage | undefined;
 
-          // [核心修复] 增加对 chunk.choices 的有效性检查
-          if (!chunk || !chunk.choices || chunk.choices.length === 0) {
+          try {
             if (debugLoggingEnabled) {
-              console.warn('⚠️ 流式响应块缺少choices字段，跳过此块');
+              console.log(`🤖 流式生成尝试 ${attempt + 1}/${maxRetries + 1} (模型: ${currentModel.name}, 剩余: ${Math.round(remainingTime / 1000)}s)`);
             }
-            continue;
-          }
 
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            hasContent = true;
-            lastChunkTime = Date.now();
-            onChunk(content);
-          } else {
-            // 心跳机制：如果超过500ms没有内容，发送一个空的心跳
-            const now = Date.now();
-            if (now - lastChunkTime > 500) {
-              onChunk(''); // 发送空内容作为心跳
-              lastChunkTime = now;
+            const adapter = this.getAdapter(currentModel);
+            release = await this.acquireSlot(currentModel, options, remainingTime);
+            // 动态计算请求超时：取配置超时和拿到许可后剩余时间的较小值
+            const requestTimeout = Math.min(taskConfig.timeout, getRemainingTime() - 2000);
+            // 温度按任务配置（生成任务在范围内随机抖动，降低同质化），调用方显式指定时优先
+            const temperature = typeof options.temperature === 'number'
+              ? options.temperature
+              : pickTemperature(taskConfig.temperature);
+            if (debugLoggingEnabled) {
+              console.log(`🌡️ 本次生成温度: ${temperature.toFixed(2)}`);
+            }
+            const isContinuation = emittedText.length > 0;
+            requestPrompt = isContinuation ? getContinuationPrompt(prompt, emittedText) : prompt;
+            if (isContinuation && debugLoggingEnabled) {
+              console.log(`⏩ 从断点续写，已输出 ${emittedText.length} 字符`);
+            }
+            const response = adapter.stream(
+              { model: currentModel.model, prompt: requestPrompt, temperature },
+              { timeout: requestTimeout, signal: options.signal, source: { route: options.route || 'unknown', task } }
+            );
+
+            let hasContent = false;
+            let lastChunkTime = Date.now();
+            // 续写开头的缓冲区，确认衔接方式后再发出；null 表示直接发出
+            let continuationHead: string | null = isContinuation ? '' : null;
+            const flushContinuationHead = () => {
+              if (continuationHead === null) return;
+              const resolved = this.resolveContinuationHead(emittedText, continuationHead, options);
+              continuationHead = null;
+              if (resolved.restarted) {
+                emittedText = '';
+              }
+              emit(resolved.text);
+            };
+
+            for await (const chunk of response) {
+              // 客户端已断开：抛出后由 catch 统一按取消处理
+              throwIfCancelled(options.signal);
+
+              // 检查剩余时间，防止流式生成超时
+              if (getRemainingTime() <= 2000) {
+                if (debugLoggingEnabled) {
+                  console.warn(`⏱️ 流式生成剩余时间不足，提前结束`);
+                }
+                break;
+              }
+
+              if (chunk.usage) {
+                streamUsage = chunk.usage;
+              }
+
+              const content = chunk.content;
+              if (content) {
+                hasContent = true;
+                generatedText += content;
+                lastChunkTime = Date.now();
+                if (continuationHead !== null) {
+                  continuationHead += content;
+                  if (continuationHead.length >= CONTINUATION_PROBE_LENGTH) {
+                    flushContinuationHead();
+                  }
+                } else {
+                  emit(content);
+                }
+              } else {
+                // 心跳机制：如果超过500ms没有内容，发送一个空的心跳
+                const now = Date.now();
+                if (now - lastChunkTime > 500) {
+                  onChunk(''); // 发送空内容作为心跳
+                  lastChunkTime = now;
+                }
+              }
             }
-          }
-        }
 
-          if (!hasContent) {
-            throw new Error('AI没有返回任何内容');
-          }
+            if (!hasContent) {
+              throw new Error('AI没有返回任何内容');
+            }
+            flushContinuationHead();
 
-          if (debugLoggingEnabled) {
-            console.log(`✅ 流式生成成功 (模型: ${currentModel})`);
-          }
-          return;
+            if (debugLoggingEnabled) {
+              console.log(`✅ 流式生成成功 (模型: ${currentModel.name})`);
+            }
+            circuitBreaker.recordSuccess(currentModel.name);
+            release();
+            this.addAttemptUsage(spent, currentModel, requestPrompt, generatedText, streamUsage);
+            this.trackUsage(task, currentModel, spent, {
+              fallbackCount: modelIndex,
+              attempts: totalAttempts,
+              startTime,
+              success: true
+            }, options);
+            return;
+
+          } catch (error) {
+            release?.();
+            // 断流前已输出的部分同样消耗了 token
+            this.addAttemptUsage(spent, currentModel, requestPrompt, generatedText, streamUsage);
+
+            // 取消不是模型故障：不重试、不降级、不计入熔断
+            if (options.signal?.aborted) {
+              console.log(`🛑 ${ERROR_MESSAGES.GENERATION_CANCELLED}，已中止模型 ${currentModel.name} 的流式生成 (已输出 ${emittedText.length} 字符)`);
+              trackCancelled();
+              onError(new CancelledError());
+              return;
+            }
 
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
+            lastError = error instanceof Error ? error : new Error(String(error));
 
-          if (debugLoggingEnabled) {
-            console.warn(`⚠️ 模型 ${currentModel} 流式生成尝试 ${attempt + 1} 失败:`, lastError.message);
-          }
-
-          // 如果不是最后一次尝试，等待后重试
-          if (attempt < this.retryConfig.maxRetries) {
-            const delayMs = this.calculateDelay(attempt);
             if (debugLoggingEnabled) {
-              console.log(`⏳ 等待 ${delayMs}ms 后重试...`);
+              console.warn(`⚠️ 模型 ${currentModel.name} 流式生成尝试 ${attempt + 1} 失败:`, lastError.message);
+            }
+
+            // 排队超时说明该模型繁忙而非故障：不计入熔断，直接尝试下一个模型
+            if (error instanceof QueueTimeoutError) {
+              break;
+            }
+
+            // 已熔断的模型不再重试，直接切换下一个模型
+            circuitBreaker.recordFailure(currentModel.name, lastError);
+            if (circuitBreaker.isOpen(currentModel.name)) {
+              break;
+            }
+
+            // 如果不是最后一次尝试，等待后重试
+            if (attempt < maxRetries) {
+              const delayMs = this.calculateDelay(attempt);
+              if (debugLoggingEnabled) {
+                console.log(`⏳ 等待 ${delayMs}ms 后重试...`);
+              }
+              await this.delay(delayMs);
             }
-            await this.delay(delayMs);
           }
         }
+      } finally {
+        // 半开探测以取消、排队超时、校验失败等不计入熔断的结果结束时，归还探测名额
+        if (permit.probeToken) {
+          circuitBreaker.releaseProbe(currentModel.name, permit.probeToken);
+        }
       }
 
       // 检查剩余时间，如果不足则不再切换模型
@@ -561,14 +751,23 @@ export class AIManager {
       // 当前模型的所有重试都失败了，尝试下一个模型
       if (modelIndex < modelList.length - 1) {
         if (debugLoggingEnabled) {
-          console.log(`🔄 模型 ${currentModel} 失败，尝试下一个模型: ${modelList[modelIndex + 1]}`);
+          console.log(`🔄 模型 ${currentModel.name} 失败，尝试下一个模型: ${modelList[modelIndex + 1].name}`);
         }
       }
     }
 
     // 所有模型和重试都失败了
+    if (lastTriedModel) {
+      this.trackUsage(task, lastTriedModel, spent, {
+        fallbackCount: modelList.indexOf(lastTriedModel),
+        attempts: totalAttempts,
+        startTime,
+        success: false
+      }, options);
+    }
+
     const finalError = new BusinessError(
-      `流式生成失败，已尝试所有模型 [${modelList.join(', ')}]，每个模型重试${this.retryConfig.maxRetries}次: ${lastError?.message}`,
+      `流式生成失败，已尝试所有模型 [${modelList.map(entry => entry.name).join(', ')}]，每个模型重试${maxRetries}次: ${lastError?.message}`,
       '内容生成失败',
       '请稍后重试，如果问题持续请联系技术支持',
       true
@@ -588,7 +787,8 @@ export class AIManager {
    * 重置客户端（用于配置更新后）
    */
   resetClient(): void {
-    this.client = null;
+    this.adapters.clear();
+    circuitBreaker.reset();
   }
 
 
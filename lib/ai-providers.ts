@@ -0,0 +1,649 @@
+/**
+ * AI服务提供方适配层
+ * 将不同厂商的调用协议（OpenAI兼容、Gemini原生、Anthropic Messages、本地Ollama/llama.cpp）
+ * 统一为同一套接口，供 AIManager 的多模型降级链跨厂商使用
+ */
+
+import OpenAI from 'openai';
+import { getEnvVar } from './utils';
+import { CONFIG } from './constants';
+import { BusinessError, CancelledError } from './error-handler';
+
+/**
+ * 支持的提供方类型
+ */
+export type ProviderType = 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'llamacpp';
+
+const PROVIDER_TYPES: ProviderType[] = ['openai', 'gemini', 'anthropic', 'ollama', 'llamacpp'];
+
+/**
+ * 各提供方的连接配置（按厂商使用独立的地址和密钥）
+ */
+const PROVIDER_CONFIG: Record<ProviderType, { urlEnv: string; keyEnv: string; defaultUrl: string; requiresKey: boolean }> = {
+  // 默认提供方，兼容旧配置
+  openai: { urlEnv: 'THIRD_PARTY_API_URL', keyEnv: 'THIRD_PARTY_API_KEY', defaultUrl: '', requiresKey: true },
+  gemini: { urlEnv: 'GEMINI_API_URL', keyEnv: 'GEMINI_API_KEY', defaultUrl: 'https://generativelanguage.googleapis.com/v1beta', requiresKey: true },
+  anthropic: { urlEnv: 'ANTHROPIC_API_URL', keyEnv: 'ANTHROPIC_API_KEY', defaultUrl: 'https://api.anthropic.com', requiresKey: true },
+  ollama: { urlEnv: 'OLLAMA_API_URL', keyEnv: 'OLLAMA_API_KEY', defaultUrl: 'http://localhost:11434', requiresKey: false },
+  llamacpp: { urlEnv: 'LLAMACPP_API_URL', keyEnv: 'LLAMACPP_API_KEY', defaultUrl: 'http://localhost:8080/v1', requiresKey: false },
+};
+
+// Anthropic Messages API 要求显式指定 max_tokens
+const ANTHROPIC_MAX_TOKENS = 8192;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * 模型链中的单个条目
+ * AI_MODEL_NAME 中每一项写作 "provider:model"，未写前缀时使用 openai 兼容提供方
+ */
+export interface ModelEntry {
+  name: string; // 原始配置项，用于日志和状态展示
+  provider: ProviderType;
+  model: string;
+}
+
+/**
+ * 随请求附带的图片，data 为不含 data: 前缀的 base64 内容
+ */
+export interface ImageInput {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * 统一的补全请求
+ */
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  temperature: number;
+  jsonMode?: boolean; // 要求模型返回 JSON 对象
+  images?: ImageInput[]; // 附带图片，需要模型支持图片输入
+}
+
+/**
+ * 单次请求的传输选项
+ */
+export interface RequestOptions {
+  timeout: number;
+  signal?: AbortSignal; // 调用方取消时中止上游请求
+  source?: { route: string; task: string }; // 发起调用的路由和任务，录制回放时用于匹配夹具
+}
+
+/**
+ * 提供方返回的 token 用量
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * 非流式补全结果
+ */
+export interface CompletionResult {
+  content: string;
+  finishReason?: string | null;
+  usage?: TokenUsage;
+}
+
+/**
+ * 流式补全数据块
+ * usage 为截至当前的累计用量，通常只出现在最后几个数据块中
+ */
+export interface StreamChunk {
+  content: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * 提供方适配器接口
+ */
+export interface AIProviderAdapter {
+  readonly type: ProviderType;
+  complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult>;
+  stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk>;
+}
+
+/**
+ * 解析单个模型配置项
+ * 只有已知的提供方前缀才会被识别，避免误拆 "qwen2.5:7b" 这类带冒号的模型名
+ */
+export function parseModelEntry(raw: string): ModelEntry {
+  const name = raw.trim();
+  const separatorIndex = name.indexOf(':');
+  if (separatorIndex > 0) {
+    const prefix = name.substring(0, separatorIndex).toLowerCase() as ProviderType;
+    const model = name.substring(separatorIndex + 1).trim();
+    if (PROVIDER_TYPES.indexOf(prefix) !== -1 && model.length > 0) {
+      return { name, provider: prefix, model };
+    }
+  }
+  return { name, provider: 'openai', model: name };
+}
+
+/**
+ * 解析逗号分隔的模型链
+ */
+export function parseModelChain(modelNames: string): ModelEntry[] {
+  return modelNames
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map(parseModelEntry);
+}
+
+/**
+ * 检查提供方是否已完成配置
+ */
+export function isProviderConfigured(provider: ProviderType): boolean {
+  const config = PROVIDER_CONFIG[provider];
+  const apiUrl = getEnvVar(config.urlEnv, config.defaultUrl);
+  const apiKey = getEnvVar(config.keyEnv);
+  return !!apiUrl && (!config.requiresKey || !!apiKey);
+}
+
+/**
+ * 读取提供方连接信息，配置缺失时抛出业务错误
+ */
+function getProviderConnection(provider: ProviderType): { apiUrl: string; apiKey: string } {
+  const config = PROVIDER_CONFIG[provider];
+  const apiUrl = getEnvVar(config.urlEnv, config.defaultUrl);
+  const apiKey = getEnvVar(config.keyEnv);
+
+  if (!apiUrl || (config.requiresKey && !apiKey)) {
+    throw new BusinessError(
+      `AI服务配置不完整 (提供方: ${provider}，需要 ${config.urlEnv}${config.requiresKey ? ` 和 ${config.keyEnv}` : ''})`,
+      'AI服务配置错误',
+      '请检查环境变量配置，确保API地址和密钥正确设置',
+      false
+    );
+  }
+
+  return { apiUrl: apiUrl.replace(/\/+$/, ''), apiKey };
+}
+
+/**
+ * 带超时的 fetch，非 2xx 响应统一转换为包含状态码的错误
+ * 超时计时覆盖整个响应体读取过程，由调用方在读取结束后执行 cleanup
+ * 传入 signal 时，调用方取消会同时中止请求和响应体读取
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; cleanup: () => void }> {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  const cleanup = () => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 200) || response.statusText}`);
+    }
+    return { response, cleanup };
+  } catch (error) {
+    cleanup();
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`请求超时 (${timeout}ms)`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 按行读取响应体
+ */
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 读取 SSE 响应中的 data 字段
+ */
+async function* readSSEData(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') {
+        yield data;
+      }
+    }
+  }
+}
+
+/**
+ * OpenAI 兼容适配器（第三方中转、llama.cpp server 等）
+ */
+class OpenAICompatibleAdapter implements AIProviderAdapter {
+  private client: OpenAI | null = null;
+
+  constructor(public readonly type: ProviderType) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const { apiUrl, apiKey } = getProviderConnection(this.type);
+      this.client = new OpenAI({
+        baseURL: apiUrl,
+        // 本地服务不校验密钥，但 SDK 要求非空
+        apiKey: apiKey || 'not-needed',
+        // 默认超时设置为流式超时（较大值），具体请求会在调用时显式覆盖
+        timeout: CONFIG.AI_STREAM_TIMEOUT,
+        maxRetries: 0, // 禁用 OpenAI SDK 内置重试，使用 AIManager 的重试逻辑
+      });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: CompletionRequest): any {
+    // 有图片时使用多段内容格式，图片以 data URL 传入
+    const content = request.images?.length
+      ? [
+          { type: 'text', text: request.prompt },
+          ...request.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        ]
+      : request.prompt;
+    const params: any = {
+      model: request.model,
+      messages: [{ role: 'user', content }],
+      temperature: request.temperature,
+    };
+
+    // 中转服务上的 Gemini 模型对 json_object 格式支持有限，可能导致空响应
+    if (request.jsonMode && !request.model.toLowerCase().includes('gemini')) {
+      params.response_format = { type: 'json_object' };
+    }
+
+    return params;
+  }
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    const response = await this.getClient().chat.completions.create(
+      this.buildParams(request),
+      { timeout: options.timeout, signal: options.signal }
+    );
+
+    // 增加对 response.choices 的有效性检查
+    if (!response || !response.choices || response.choices.length === 0) {
+      throw new Error('AI响应结构异常，缺少choices字段或choices为空数组');
+    }
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      finishReason: response.choices[0]?.finish_reason,
+      usage: this.toUsage(response.usage),
+    };
+  }
+
+  private toUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+    };
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    const response = await this.getClient().chat.completions.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+        // 请求在最后一个数据块中附带用量，部分中转服务不支持时可通过 AI_STREAM_USAGE=false 关闭
+        ...(process.env.AI_STREAM_USAGE !== 'false' && { stream_options: { include_usage: true } }),
+      },
+      { timeout: options.timeout, signal: options.signal }
+    );
+
+    for await (const chunk of response as any) {
+      // 用量块的 choices 为空数组，需要在跳过之前读取
+      const usage = this.toUsage(chunk?.usage);
+      // 流式响应块可能缺少 choices 字段，直接跳过
+      if (!chunk || !chunk.choices || chunk.choices.length === 0) {
+        if (usage) {
+          yield { content: '', usage };
+        }
+        continue;
+      }
+      yield { content: chunk.choices[0]?.delta?.content || '', usage };
+    }
+  }
+}
+
+/**
+ * Gemini 原生 REST 适配器
+ */
+class GeminiAdapter implements AIProviderAdapter {
+  readonly type: ProviderType = 'gemini';
+
+  private buildBody(request: CompletionRequest): string {
+    return JSON.stringify({
+      contents: [{
+        role: 'user',
+        parts: [
+          { text: request.prompt },
+          ...(request.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        ],
+      }],
+      generationConfig: {
+        temperature: request.temperature,
+        ...(request.jsonMode && { responseMimeType: 'application/json' }),
+      },
+    });
+  }
+
+  private extractText(data: any): string {
+    const parts = data?.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) return '';
+    return parts.map((part: any) => part?.text || '').join('');
+  }
+
+  private extractUsage(data: any): TokenUsage | undefined {
+    const metadata = data?.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+      promptTokens: metadata.promptTokenCount || 0,
+      completionTokens: metadata.candidatesTokenCount || 0,
+    };
+  }
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    const { apiUrl, apiKey } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/models/${encodeURIComponent(request.model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: this.buildBody(request),
+      },
+      options.timeout,
+      options.signal
+    );
+
+    try {
+      const data = await response.json();
+      return {
+        content: this.extractText(data),
+        finishReason: data?.candidates?.[0]?.finishReason?.toLowerCase() ?? null,
+        usage: this.extractUsage(data),
+      };
+    } finally {
+      cleanup();
+    }
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    const { apiUrl, apiKey } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: this.buildBody(request),
+      },
+      options.timeout,
+      options.signal
+    );
+
+    try {
+      for await (const data of readSSEData(response)) {
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          continue; // 跳过无法解析的事件
+        }
+        yield { content: this.extractText(parsed), usage: this.extractUsage(parsed) };
+      }
+    } finally {
+      cleanup();
+    }
+  }
+}
+
+/**
+ * Anthropic Messages API 适配器
+ */
+class AnthropicAdapter implements AIProviderAdapter {
+  readonly type: ProviderType = 'anthropic';
+
+  private buildRequest(request: CompletionRequest, stream: boolean): RequestInit {
+    const { apiKey } = getProviderConnection(this.type);
+    return {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      // Messages API 没有 JSON 模式，依赖提示词中的格式要求
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        temperature: Math.min(request.temperature, 1),
+        messages: [{
+          role: 'user',
+          content: request.images?.length
+            ? [
+                ...request.images.map(image => ({ type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } })),
+                { type: 'text', text: request.prompt },
+              ]
+            : request.prompt,
+        }],
+        stream,
+      }),
+    };
+  }
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    const { apiUrl } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/v1/messages`,
+      this.buildRequest(request, false),
+      options.timeout,
+      options.signal
+    );
+
+    try {
+      const data = await response.json();
+      const blocks = Array.isArray(data?.content) ? data.content : [];
+      return {
+        content: blocks.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join(''),
+        // 统一为 OpenAI 风格的 finish_reason
+        finishReason: data?.stop_reason === 'max_tokens' ? 'length' : data?.stop_reason ?? null,
+        usage: data?.usage
+          ? { promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 }
+          : undefined,
+      };
+    } finally {
+      cleanup();
+    }
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    const { apiUrl } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/v1/messages`,
+      this.buildRequest(request, true),
+      options.timeout,
+      options.signal
+    );
+
+    // 输入用量在 message_start 中返回，输出用量在 message_delta 中累计返回
+    let promptTokens = 0;
+
+    try {
+      for await (const data of readSSEData(response)) {
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        if (event?.type === 'error') {
+          throw new Error(`Anthropic流式错误: ${event.error?.message || '未知错误'}`);
+        }
+        if (event?.type === 'message_start') {
+          promptTokens = event.message?.usage?.input_tokens || 0;
+        }
+        if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield { content: event.delta.text || '' };
+        }
+        if (event?.type === 'message_delta' && event.usage) {
+          yield { content: '', usage: { promptTokens, completionTokens: event.usage.output_tokens || 0 } };
+        }
+      }
+    } finally {
+      cleanup();
+    }
+  }
+}
+
+/**
+ * Ollama 原生 API 适配器（/api/chat，流式响应为 NDJSON）
+ */
+class OllamaAdapter implements AIProviderAdapter {
+  readonly type: ProviderType = 'ollama';
+
+  // 用量只在 done=true 的最后一条消息中返回
+  private extractUsage(data: any): TokenUsage | undefined {
+    if (!data?.done) return undefined;
+    return {
+      promptTokens: data.prompt_eval_count || 0,
+      completionTokens: data.eval_count || 0,
+    };
+  }
+
+  private buildRequest(request: CompletionRequest, stream: boolean): RequestInit {
+    const { apiKey } = getProviderConnection(this.type);
+    return {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{
+          role: 'user',
+          content: request.prompt,
+          ...(!!request.images?.length && { images: request.images.map(image => image.data) }),
+        }],
+        stream,
+        options: { temperature: request.temperature },
+        ...(request.jsonMode && { format: 'json' }),
+      }),
+    };
+  }
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    const { apiUrl } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/api/chat`,
+      this.buildRequest(request, false),
+      options.timeout,
+      options.signal
+    );
+
+    try {
+      const data = await response.json();
+      return {
+        content: data?.message?.content || '',
+        finishReason: data?.done_reason ?? null,
+        usage: this.extractUsage(data),
+      };
+    } finally {
+      cleanup();
+    }
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    const { apiUrl } = getProviderConnection(this.type);
+    const { response, cleanup } = await fetchWithTimeout(
+      `${apiUrl}/api/chat`,
+      this.buildRequest(request, true),
+      options.timeout,
+      options.signal
+    );
+
+    try {
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          continue;
+        }
+
+        if (parsed?.error) {
+          throw new Error(`Ollama流式错误: ${parsed.error}`);
+        }
+        yield { content: parsed?.message?.content || '', usage: this.extractUsage(parsed) };
+      }
+    } finally {
+      cleanup();
+    }
+  }
+}
+
+/**
+ * 创建指定提供方的适配器实例
+ */
+export function createProviderAdapter(provider: ProviderType): AIProviderAdapter {
+  switch (provider) {
+    case 'gemini':
+      return new GeminiAdapter();
+    case 'anthropic':
+      return new AnthropicAdapter();
+    case 'ollama':
+      return new OllamaAdapter();
+    case 'openai':
+    case 'llamacpp':
+    default:
+      return new OpenAICompatibleAdapter(provider);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * AI调用录制与回放
+ * record 模式下把每次请求和响应（含流式数据块及其时间间隔）按提示词哈希保存为夹具文件，
+ * replay 模式下不访问任何模型服务，直接从夹具文件回放，用于离线、可复现地跑通完整流程
+ * 热门笔记抓取（MCP 或小红书接口）同样按关键词录制和回放，回放时不访问网络
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { getEnvVar } from './utils';
+import { throwIfCancelled } from './error-handler';
+import type {
+  AIProviderAdapter,
+  CompletionRequest,
+  CompletionResult,
+  ProviderType,
+  RequestOptions,
+  StreamChunk,
+  TokenUsage
+} from './ai-providers';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+function resolveFixturesDir(): string {
+  if (process.env.AI_FIXTURES_DIR) {
+    return process.env.AI_FIXTURES_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'ai-fixtures');
+  }
+
+  return path.join(process.cwd(), 'data', 'ai-fixtures');
+}
+
+// 录制回放配置
+export const RECORDER_CONFIG = {
+  // 夹具目录，每次调用一个 JSON 文件
+  FIXTURES_DIR: resolveFixturesDir(),
+  // 夹具中保存的提示词预览长度，便于人工辨认
+  PROMPT_PREVIEW_LENGTH: 200,
+} as const;
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * 读取录制回放模式：AI_RECORD_MODE=record | replay，默认关闭
+ */
+export function getRecordMode(): RecordMode {
+  const mode = getEnvVar('AI_RECORD_MODE', 'off').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+type FixtureKind = 'complete' | 'stream';
+
+/**
+ * 夹具文件结构
+ */
+interface AIFixture {
+  version: 1;
+  key: string;
+  kind: FixtureKind;
+  provider: ProviderType;
+  model: string;
+  jsonMode: boolean;
+  route?: string; // 发起调用的路由和任务，旧版夹具没有这两个字段
+  task?: string;
+  promptPreview: string;
+  recordedAt: number;
+  result?: CompletionResult; // kind 为 complete 时
+  chunks?: Array<{ delayMs: number; content: string; usage?: TokenUsage }>; // kind 为 stream 时
+}
+
+/**
+ * 热门笔记抓取结果夹具，按数据来源和关键词保存
+ */
+interface HotPostsFixture {
+  version: 1;
+  key: string;
+  kind: 'hot_posts';
+  source: string; // 数据来源：mcp 或 xhs-api
+  keyword: string;
+  recordedAt: number;
+  data: unknown;
+}
+
+/**
+ * 按提供方、模型和提示词生成夹具键，附带图片时图片内容也参与计算
+ * 温度每次请求都会随机抖动，不参与计算
+ */
+function getFixtureKey(provider: ProviderType, request: CompletionRequest): string {
+  const parts: unknown[] = [provider, request.model, !!request.jsonMode, request.prompt];
+  if (request.images?.length) {
+    parts.push(request.images.map(image => image.data));
+  }
+  return createHash('sha256')
+    .update(JSON.stringify(parts))
+    .digest('hex')
+    .substring(0, 24);
+}
+
+function getFixtureFilePath(kind: FixtureKind | 'hot_posts', key: string): string {
+  return path.join(RECORDER_CONFIG.FIXTURES_DIR, `${kind}-${key}.json`);
+}
+
+async function saveFixture(fixture: AIFixture | HotPostsFixture): Promise<void> {
+  try {
+    await fs.mkdir(RECORDER_CONFIG.FIXTURES_DIR, { recursive: true });
+    await fs.writeFile(getFixtureFilePath(fixture.kind, fixture.key), JSON.stringify(fixture, null, 2), 'utf-8');
+    if (debugLoggingEnabled) {
+      const label = fixture.kind === 'hot_posts' ? `${fixture.source}: ${fixture.keyword}` : fixture.model;
+      console.log(`📼 已录制: ${fixture.kind}-${fixture.key} (${label})`);
+    }
+  } catch (error) {
+    console.warn('保存夹具失败:', error);
+  }
+}
+
+async function readFixture<T = AIFixture>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 查找回放夹具
+ * 优先按提示词哈希精确匹配；生成提示词含随机写作配置，哈希通常无法命中，
+ * 非严格模式下退回同一路由、同一任务、同类型最近录制的夹具（同模型优先），
+ * 避免回放到其他接口的输出；AI_REPLAY_STRICT=true 时只做精确匹配
+ */
+async function findFixture(kind: FixtureKind, provider: ProviderType, request: CompletionRequest, options: RequestOptions): Promise<AIFixture> {
+  const key = getFixtureKey(provider, request);
+  const exact = await readFixture(getFixtureFilePath(kind, key));
+  if (exact) {
+    return exact;
+  }
+
+  if (getEnvVar('AI_REPLAY_STRICT') !== 'true' && options.source) {
+    const { route, task } = options.source;
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(RECORDER_CONFIG.FIXTURES_DIR)).filter(file => file.startsWith(`${kind}-`) && file.endsWith('.json'));
+    } catch {
+      files = [];
+    }
+
+    let best: AIFixture | null = null;
+    for (const file of files) {
+      const fixture = await readFixture(path.join(RECORDER_CONFIG.FIXTURES_DIR, file));
+      if (!fixture || fixture.jsonMode !== !!request.jsonMode || fixture.route !== route || fixture.task !== task) continue;
+      const sameModel = fixture.provider === provider && fixture.model === request.model;
+      const bestSameModel = !!best && best.provider === provider && best.model === request.model;
+      if (!best || (sameModel && !bestSameModel) || (sameModel === bestSameModel && fixture.recordedAt > best.recordedAt)) {
+        best = fixture;
+      }
+    }
+
+    if (best) {
+      console.warn(`⚠️ 未找到提示词哈希 ${key} 的夹具，回放 ${route}/${task} 最近录制的 ${best.kind}-${best.key} (${best.model})`);
+      return best;
+    }
+  }
+
+  throw new Error(`回放模式下未找到AI调用夹具: ${kind}-${key}，请先在 AI_RECORD_MODE=record 下录制`);
+}
+
+function createFixture(kind: FixtureKind, provider: ProviderType, request: CompletionRequest, options: RequestOptions): AIFixture {
+  return {
+    version: 1,
+    key: getFixtureKey(provider, request),
+    kind,
+    provider,
+    model: request.model,
+    jsonMode: !!request.jsonMode,
+    route: options.source?.route,
+    task: options.source?.task,
+    promptPreview: request.prompt.substring(0, RECORDER_CONFIG.PROMPT_PREVIEW_LENGTH),
+    recordedAt: Date.now(),
+  };
+}
+
+/**
+ * 录制适配器：透传真实调用，成功后保存夹具
+ */
+class RecordingAdapter implements AIProviderAdapter {
+  readonly type: ProviderType;
+
+  constructor(private readonly inner: AIProviderAdapter) {
+    this.type = inner.type;
+  }
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    const result = await this.inner.complete(request, options);
+    await saveFixture({ ...createFixture('complete', this.type, request, options), result });
+    return result;
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    const chunks: NonNullable<AIFixture['chunks']> = [];
+    let lastChunkTime = Date.now();
+
+    for await (const chunk of this.inner.stream(request, options)) {
+      const now = Date.now();
+      chunks.push({ delayMs: now - lastChunkTime, content: chunk.content, usage: chunk.usage });
+      lastChunkTime = now;
+      yield chunk;
+    }
+
+    // 只保存完整结束的流，中途失败的流不录制
+    await saveFixture({ ...createFixture('stream', this.type, request, options), chunks });
+  }
+}
+
+/**
+ * 回放适配器：不访问模型服务，按录制时的间隔依次返回数据块
+ * AI_REPLAY_SPEED 为时间倍率，默认 1（原速），设为 0 时不等待
+ */
+class ReplayAdapter implements AIProviderAdapter {
+  constructor(readonly type: ProviderType) {}
+
+  async complete(request: CompletionRequest, options: RequestOptions): Promise<CompletionResult> {
+    throwIfCancelled(options.signal);
+    const fixture = await findFixture('complete', this.type, request, options);
+    if (!fixture.result) {
+      throw new Error(`AI调用夹具 ${fixture.kind}-${fixture.key} 缺少响应内容`);
+    }
+    throwIfCancelled(options.signal);
+    return fixture.result;
+  }
+
+  async *stream(request: CompletionRequest, options: RequestOptions): AsyncIterable<StreamChunk> {
+    throwIfCancelled(options.signal);
+    const fixture = await findFixture('stream', this.type, request, options);
+    const speed = parseFloat(getEnvVar('AI_REPLAY_SPEED', '1'));
+    const scale = Number.isNaN(speed) || speed < 0 ? 1 : speed;
+
+    for (const chunk of fixture.chunks || []) {
+      const delayMs = Math.round(chunk.delayMs * scale);
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      throwIfCancelled(options.signal);
+      yield { content: chunk.content, usage: chunk.usage };
+    }
+  }
+}
+
+/**
+ * 按录制回放模式包装提供方适配器
+ * 回放模式下不会创建真实适配器，因此无需配置任何模型服务
+ */
+export function withRecordReplay(provider: ProviderType, createAdapter: () => AIProviderAdapter): AIProviderAdapter {
+  switch (getRecordMode()) {
+    case 'replay':
+      return new ReplayAdapter(provider);
+    case 'record':
+      return new RecordingAdapter(createAdapter());
+    default:
+      return createAdapter();
+  }
+}
+
+/**
+ * 按录制回放模式包装热门笔记抓取
+ * record 模式下抓取成功后保存结果；replay 模式下不访问网络，直接返回该关键词录制的结果，
+ * 没有夹具时抛出错误，由调用方按抓取失败处理（降级到缓存或无数据模式）
+ */
+export async function withHotPostsRecordReplay<T>(
+  source: string,
+  keyword: string,
+  fetcher: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const mode = getRecordMode();
+  if (mode === 'off') {
+    return fetcher();
+  }
+
+  const key = createHash('sha256').update(JSON.stringify([source, keyword])).digest('hex').substring(0, 24);
+  if (mode === 'replay') {
+    throwIfCancelled(signal);
+    const fixture = await readFixture<HotPostsFixture>(getFixtureFilePath('hot_posts', key));
+    if (!fixture) {
+      throw new Error(`回放模式下未找到热门笔记夹具: ${source} / ${keyword}，请先在 AI_RECORD_MODE=record 下录制`);
+    }
+    return fixture.data as T;
+  }
+
+  const data = await fetcher();
+  await saveFixture({ version: 1, key, kind: 'hot_posts', source, keyword, recordedAt: Date.now(), data });
+  return data;
+}
@@ -0,0 +1,117 @@
+/**
+ * AI任务路由配置
+ * 不同任务使用独立的模型链、温度、超时和重试次数：
+ * 分析任务偏结构化，适合便宜稳定的模型；生成任务偏创作，适合更强、更发散的模型
+ *
+ * 环境变量（TASK 为任务名的大写形式，均可选，未配置时使用默认值）：
+ * - AI_TASK_<TASK>_MODELS: 模型链，格式同 AI_MODEL_NAME，未配置时使用 AI_MODEL_NAME
+ * - AI_TASK_<TASK>_TEMPERATURE: 温度，可写作单个值 "0.3" 或范围 "0.65-0.9"（每次请求在范围内随机取值）
+ * - AI_TASK_<TASK>_TIMEOUT: 单次请求超时（毫秒）
+ * - AI_TASK_<TASK>_RETRIES: 每个模型的重试次数
+ */
+
+import { getEnvVar } from './utils';
+import { CONFIG } from './constants';
+import { ModelEntry, parseModelChain } from './ai-providers';
+import type { RandomSource } from './seeded-random';
+
+/**
+ * AI任务名称
+ */
+export type AITaskName = 'analysis' | 'generation' | 'rewrite' | 'vision';
+
+export const AI_TASK_NAMES: AITaskName[] = ['analysis', 'generation', 'rewrite', 'vision'];
+
+/**
+ * 温度配置：固定值或随机范围
+ */
+export type TemperatureSetting = number | { min: number; max: number };
+
+/**
+ * 解析后的任务配置
+ */
+export interface AITaskConfig {
+  task: AITaskName;
+  models: ModelEntry[];
+  temperature: TemperatureSetting;
+  timeout: number;
+  maxRetries: number;
+}
+
+// 各任务的默认配置，模型链默认沿用 AI_MODEL_NAME
+const TASK_DEFAULTS: Record<AITaskName, Omit<AITaskConfig, 'task' | 'models'>> = {
+  // 分析任务更偏“结构化/稳定”
+  analysis: {
+    temperature: CONFIG.ANALYSIS_TEMPERATURE,
+    timeout: CONFIG.AI_REQUEST_TIMEOUT,
+    maxRetries: 1,
+  },
+  // 生成任务更偏“内容多样性”，温度随机抖动降低同质化
+  generation: {
+    temperature: { min: CONFIG.GEN_TEMPERATURE_MIN, max: CONFIG.GEN_TEMPERATURE_MAX },
+    timeout: CONFIG.AI_STREAM_TIMEOUT,
+    maxRetries: 1,
+  },
+  // 改写任务保留原文信息，温度介于分析和生成之间
+  rewrite: {
+    temperature: { min: 0.5, max: 0.75 },
+    timeout: CONFIG.AI_STREAM_TIMEOUT,
+    maxRetries: 1,
+  },
+  // 图片识别只提取可见事实，温度最低；模型链中的模型需要支持图片输入
+  vision: {
+    temperature: 0.1,
+    timeout: CONFIG.AI_REQUEST_TIMEOUT,
+    maxRetries: 1,
+  },
+};
+
+function getTaskEnv(task: AITaskName, key: string): string {
+  return getEnvVar(`AI_TASK_${task.toUpperCase()}_${key}`).trim();
+}
+
+/**
+ * 解析温度配置，支持 "0.3" 和 "0.65-0.9" 两种写法
+ */
+function parseTemperature(raw: string): TemperatureSetting | null {
+  const rangeMatch = raw.match(/^(\d*\.?\d+)\s*-\s*(\d*\.?\d+)$/);
+  if (rangeMatch) {
+    const min = parseFloat(rangeMatch[1]);
+    const max = parseFloat(rangeMatch[2]);
+    return min <= max ? { min, max } : { min: max, max: min };
+  }
+  const value = parseFloat(raw);
+  return Number.isNaN(value) ? null : value;
+}
+
+function parseNonNegativeInt(raw: string): number | null {
+  const value = parseInt(raw, 10);
+  return Number.isNaN(value) || value < 0 ? null : value;
+}
+
+/**
+ * 解析任务配置：任务级环境变量优先，其次任务默认值
+ */
+export function resolveTaskConfig(task: AITaskName): AITaskConfig {
+  const defaults = TASK_DEFAULTS[task];
+  const taskModels = getTaskEnv(task, 'MODELS');
+  const modelNames = taskModels || getEnvVar('AI_MODEL_NAME', CONFIG.DEFAULT_AI_MODEL);
+
+  return {
+    task,
+    models: parseModelChain(modelNames),
+    temperature: parseTemperature(getTaskEnv(task, 'TEMPERATURE')) ?? defaults.temperature,
+    timeout: parseNonNegativeInt(getTaskEnv(task, 'TIMEOUT')) || defaults.timeout,
+    maxRetries: parseNonNegativeInt(getTaskEnv(task, 'RETRIES')) ?? defaults.maxRetries,
+  };
+}
+
+/**
+ * 取本次请求的温度：范围配置时在范围内随机取值（可传入带种子的随机数来源以便复现）
+ */
+export function pickTemperature(setting: TemperatureSetting, random: RandomSource = Math.random): number {
+  if (typeof setting === 'number') {
+    return setting;
+  }
+  return setting.min + random() * (setting.max - setting.min);
+}
@@ -0,0 +1,207 @@
+/**
+ * AI结构化输出的声明式校验
+ * 用一份 schema 同时描述字段类型、必填规则和默认值，
+ * 校验失败时给出带字段路径的错误，供修复提示词回传给模型
+ */
+
+/**
+ * Schema 节点
+ * - required: 缺失或为 null 时报错；非必填字段缺失时按类型补齐默认值
+ * - normalize: 对象节点校验前的预处理，用于兼容模型的常见偏差
+ */
+export type SchemaNode =
+  | { type: 'string'; required?: boolean; nonEmpty?: boolean }
+  | { type: 'array'; items: SchemaNode; required?: boolean; minItems?: number }
+  | {
+      type: 'object';
+      fields: Record<string, SchemaNode>;
+      required?: boolean;
+      normalize?: (value: Record<string, any>) => Record<string, any>;
+    };
+
+/**
+ * 校验结果
+ */
+export interface SchemaValidationResult<T> {
+  isValid: boolean;
+  data: T;
+  errors: string[];
+}
+
+/**
+ * 生成非必填字段的默认值
+ */
+function createDefault(schema: SchemaNode): any {
+  switch (schema.type) {
+    case 'string':
+      return '';
+    case 'array':
+      return [];
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const key of Object.keys(schema.fields)) {
+        result[key] = createDefault(schema.fields[key]);
+      }
+      return result;
+    }
+  }
+}
+
+function validateNode(value: any, schema: SchemaNode, path: string, errors: string[]): any {
+  if (value === undefined || value === null) {
+    if (schema.required) {
+      errors.push(path ? `缺少必需字段: ${path}` : 'AI返回了空的JSON');
+    }
+    return createDefault(schema);
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      // 数字等标量按字符串处理，避免因模型输出 3 而不是 "3" 触发修复
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        value = String(value);
+      }
+      if (typeof value !== 'string') {
+        errors.push(`${path}应该是字符串`);
+        return '';
+      }
+      if (schema.nonEmpty && value.trim() === '') {
+        errors.push(`${path}不能为空字符串`);
+      }
+      return value;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}应该是数组`);
+        return [];
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.push(schema.minItems === 1 ? `${path}应该是非空数组` : `${path}至少需要${schema.minItems}项，实际${value.length}项`);
+      }
+      return value.map((item, index) => validateNode(item, schema.items, `${path}[${index}]`, errors));
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(path ? `${path}字段缺失或格式错误` : 'AI返回的JSON应该是对象');
+        return createDefault(schema);
+      }
+      const source = schema.normalize ? schema.normalize(value) : value;
+      const result: Record<string, any> = {};
+      for (const key of Object.keys(schema.fields)) {
+        result[key] = validateNode(source[key], schema.fields[key], path ? `${path}.${key}` : key, errors);
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * 按 schema 校验并规整数据
+ * 返回的 data 只包含 schema 中声明的字段，非必填字段已补齐默认值
+ */
+export function validateWithSchema<T>(value: unknown, schema: SchemaNode): SchemaValidationResult<T> {
+  const errors: string[] = [];
+  const data = validateNode(value, schema, '', errors);
+  return { isValid: errors.length === 0, data: data as T, errors };
+}
+
+// 常用节点简写
+const requiredString: SchemaNode = { type: 'string', required: true, nonEmpty: true };
+const optionalString: SchemaNode = { type: 'string' };
+const stringList: SchemaNode = { type: 'array', items: { type: 'string' } };
+const requiredStringList: SchemaNode = { type: 'array', items: { type: 'string' }, required: true };
+const nonEmptyStringList: SchemaNode = { type: 'array', items: { type: 'string' }, required: true, minItems: 1 };
+
+/**
+ * 热门笔记爆款分析报告 schema，对应 getAnalysisPrompt 中的 JSON 结构和 HotPostAnalysis 类型
+ */
+export const HOT_POST_ANALYSIS_SCHEMA: SchemaNode = {
+  type: 'object',
+  required: true,
+  fields: {
+    titleFormulas: {
+      type: 'object',
+      required: true,
+      fields: {
+        analysis: optionalString,
+        suggestedFormulas: nonEmptyStringList,
+        commonKeywords: requiredStringList,
+        avoidWords: stringList,
+      },
+    },
+    contentStructure: {
+      type: 'object',
+      required: true,
+      fields: {
+        openingHooks: nonEmptyStringList,
+        storyTemplates: stringList,
+        bodyTemplate: requiredString,
+        endingHooks: nonEmptyStringList,
+        emotionalTone: optionalString,
+      },
+    },
+    tagStrategy: {
+      type: 'object',
+      required: true,
+      // commonTags 缺失时从 tagCategories 中提取前10个作为常用标签
+      normalize: (tagStrategy) => {
+        if (tagStrategy.commonTags !== undefined && tagStrategy.commonTags !== null) {
+          return tagStrategy;
+        }
+        const categories = tagStrategy.tagCategories || {};
+        const extractedTags = [
+          ...(Array.isArray(categories.coreKeywords) ? categories.coreKeywords : []),
+          ...(Array.isArray(categories.longTailKeywords) ? categories.longTailKeywords : []),
+        ];
+        return { ...tagStrategy, commonTags: extractedTags.slice(0, 10) };
+      },
+      fields: {
+        strategy: optionalString,
+        commonTags: requiredStringList,
+        tagCategories: {
+          type: 'object',
+          fields: {
+            coreKeywords: stringList,
+            longTailKeywords: stringList,
+            sceneTags: stringList,
+            demographicTags: stringList,
+          },
+        },
+      },
+    },
+    coverStyleAnalysis: {
+      type: 'object',
+      required: true,
+      fields: {
+        commonStyles: nonEmptyStringList,
+        suggestion: optionalString,
+        colorTone: optionalString,
+      },
+    },
+    engagingWritingElements: {
+      type: 'object',
+      fields: {
+        humorTechniques: stringList,
+        storyElements: stringList,
+        emotionalHooks: stringList,
+      },
+    },
+    writingGuidelines: {
+      type: 'object',
+      fields: {
+        antiListingRules: stringList,
+        lifelikeDetails: stringList,
+      },
+    },
+    engagementPatterns: {
+      type: 'object',
+      fields: {
+        interactionTriggers: stringList,
+        commentPatterns: stringList,
+        shareReasons: stringList,
+      },
+    },
+  },
+};
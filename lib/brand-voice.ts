@@ -0,0 +1,292 @@
+/**
+ * 品牌口吻配置模块
+ * 为客户维护统一的品牌口吻（标志性表达、禁用词、自称、emoji 规范、产品命名），
+ * 生成时作为额外约束注入提示词，生成后检查禁用词和产品名称写法
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { validateWithSchema, SchemaNode } from './analysis-schema';
+import type { GeneratedContent } from './types';
+
+function resolveBrandVoicesDir(): string {
+  if (process.env.BRAND_VOICES_DIR) {
+    return process.env.BRAND_VOICES_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'brand-voices');
+  }
+
+  return path.join(process.cwd(), 'data', 'brand-voices');
+}
+
+// 品牌口吻配置
+export const BRAND_VOICE_CONFIG = {
+  // 配置存储目录，所有品牌口吻保存在同一个 JSON 文件中
+  BRAND_VOICES_DIR: resolveBrandVoicesDir(),
+  FILE_NAME: 'brand-voices.json',
+  // 品牌口吻数量上限
+  MAX_PROFILES: 100,
+  // 单个列表字段的最大条数
+  MAX_LIST_ITEMS: 50,
+} as const;
+
+/**
+ * emoji 规范：auto 表示沿用写作配置的 emoji 密度，none 表示完全不用
+ */
+export type EmojiPolicy = 'auto' | 'none' | 'low' | 'medium' | 'high';
+
+export const EMOJI_POLICIES: EmojiPolicy[] = ['auto', 'none', 'low', 'medium', 'high'];
+
+/**
+ * 产品命名：name 为标准名称，aliases 为不允许出现的其他写法
+ */
+export interface ProductNaming {
+  name: string;
+  aliases: string[];
+}
+
+/**
+ * 品牌口吻
+ */
+export interface BrandVoiceProfile {
+  id: string;
+  name: string; // 品牌或客户名称
+  selfReference: string; // 笔记中的自称，如"我们家""小鹿"，为空时不限制
+  signaturePhrases: string[]; // 标志性表达，每篇至少自然使用一句
+  forbiddenWords: string[]; // 禁用词
+  emojiPolicy: EmojiPolicy;
+  productNames: ProductNaming[];
+  notes: string; // 其他口吻要求
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 生成后的品牌口吻检查结果
+ */
+export interface BrandVoiceCheck {
+  passed: boolean;
+  forbiddenWords: string[]; // 出现的禁用词
+  productNaming: Array<{ alias: string; name: string }>; // 出现的不规范产品写法及其标准名称
+  signaturePhrasesUsed: string[];
+  missingSignature: boolean; // 配置了标志性表达但一句都没有用到
+}
+
+/**
+ * 存储操作结果，失败时 reason 对应 HTTP 状态：invalid 400，not_found 404，conflict 409
+ */
+export type BrandVoiceStoreResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: 'invalid' | 'not_found' | 'conflict'; errors: string[] };
+
+const requiredString: SchemaNode = { type: 'string', required: true, nonEmpty: true };
+const optionalString: SchemaNode = { type: 'string' };
+const stringList: SchemaNode = { type: 'array', items: requiredString };
+
+// 品牌口吻内容 schema，非必填字段缺失时补齐默认值
+const BRAND_VOICE_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    name: requiredString,
+    selfReference: optionalString,
+    signaturePhrases: stringList,
+    forbiddenWords: stringList,
+    emojiPolicy: optionalString,
+    productNames: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          name: requiredString,
+          aliases: stringList,
+        }
+      }
+    },
+    notes: optionalString,
+  }
+};
+
+type BrandVoiceContent = Omit<BrandVoiceProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+const BRAND_VOICE_ID_PATTERN = /^[a-z0-9_-]{2,40}$/;
+
+function getStoreFilePath(): string {
+  return path.join(BRAND_VOICE_CONFIG.BRAND_VOICES_DIR, BRAND_VOICE_CONFIG.FILE_NAME);
+}
+
+async function readProfiles(): Promise<BrandVoiceProfile[]> {
+  try {
+    const content = await fs.readFile(getStoreFilePath(), 'utf-8');
+    const data = JSON.parse(content);
+    return Array.isArray(data.profiles) ? data.profiles : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('读取品牌口吻配置失败:', error);
+    }
+    return [];
+  }
+}
+
+async function writeProfiles(profiles: BrandVoiceProfile[]): Promise<void> {
+  await fs.mkdir(BRAND_VOICE_CONFIG.BRAND_VOICES_DIR, { recursive: true });
+  await fs.writeFile(getStoreFilePath(), JSON.stringify({ profiles }, null, 2), 'utf-8');
+}
+
+// 串行执行写操作，避免并发请求读到旧数据后互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeChain.then(operation, operation);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * 校验品牌口吻内容，返回规整后的内容（文本去除首尾空白、列表去重）
+ */
+function validateBrandVoiceContent(input: Record<string, unknown>, errors: string[]): BrandVoiceContent {
+  const validation = validateWithSchema<BrandVoiceContent>(input, BRAND_VOICE_SCHEMA);
+  errors.push(...validation.errors);
+
+  const content = validation.data;
+  const emojiPolicy = (content.emojiPolicy || 'auto') as EmojiPolicy;
+  if (!EMOJI_POLICIES.includes(emojiPolicy)) {
+    errors.push(`emojiPolicy 必须是以下之一: ${EMOJI_POLICIES.join(', ')}`);
+  }
+
+  const lists = [content.signaturePhrases, content.forbiddenWords, content.productNames];
+  if (lists.some(list => list.length > BRAND_VOICE_CONFIG.MAX_LIST_ITEMS)) {
+    errors.push(`列表字段最多 ${BRAND_VOICE_CONFIG.MAX_LIST_ITEMS} 条`);
+  }
+
+  const uniqueTrimmed = (list: string[]) => Array.from(new Set(list.map(item => item.trim())));
+  return {
+    name: content.name.trim(),
+    selfReference: content.selfReference.trim(),
+    signaturePhrases: uniqueTrimmed(content.signaturePhrases),
+    forbiddenWords: uniqueTrimmed(content.forbiddenWords),
+    emojiPolicy,
+    productNames: content.productNames.map(product => ({
+      name: product.name.trim(),
+      aliases: uniqueTrimmed(product.aliases).filter(alias => alias !== product.name.trim()),
+    })),
+    notes: content.notes.trim(),
+  };
+}
+
+/**
+ * 获取所有品牌口吻
+ */
+export async function listBrandVoices(): Promise<BrandVoiceProfile[]> {
+  return readProfiles();
+}
+
+/**
+ * 按 id 获取品牌口吻，不存在时返回 null
+ */
+export async function getBrandVoice(id: string): Promise<BrandVoiceProfile | null> {
+  const profiles = await readProfiles();
+  return profiles.find(profile => profile.id === id) || null;
+}
+
+/**
+ * 新增品牌口吻
+ */
+export function createBrandVoice(input: Record<string, unknown>): Promise<BrandVoiceStoreResult<BrandVoiceProfile>> {
+  return withStoreLock(async () => {
+    const errors: string[] = [];
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    if (!BRAND_VOICE_ID_PATTERN.test(id)) {
+      errors.push('id 只能包含小写字母、数字、下划线和连字符，长度 2-40');
+    }
+    const content = validateBrandVoiceContent(input, errors);
+    if (errors.length > 0) {
+      return { ok: false, reason: 'invalid', errors };
+    }
+
+    const profiles = await readProfiles();
+    if (profiles.some(profile => profile.id === id)) {
+      return { ok: false, reason: 'conflict', errors: [`品牌口吻已存在: ${id}`] };
+    }
+    if (profiles.length >= BRAND_VOICE_CONFIG.MAX_PROFILES) {
+      return { ok: false, reason: 'invalid', errors: [`品牌口吻最多 ${BRAND_VOICE_CONFIG.MAX_PROFILES} 个`] };
+    }
+
+    const now = Date.now();
+    const profile: BrandVoiceProfile = { id, ...content, createdAt: now, updatedAt: now };
+    profiles.push(profile);
+    await writeProfiles(profiles);
+    return { ok: true, data: profile };
+  });
+}
+
+/**
+ * 更新品牌口吻，未提供的字段保持不变
+ */
+export function updateBrandVoice(id: string, input: Record<string, unknown>): Promise<BrandVoiceStoreResult<BrandVoiceProfile>> {
+  return withStoreLock(async () => {
+    const profiles = await readProfiles();
+    const index = profiles.findIndex(profile => profile.id === id);
+    if (index === -1) {
+      return { ok: false, reason: 'not_found', errors: [`品牌口吻不存在: ${id}`] };
+    }
+
+    const errors: string[] = [];
+    const content = validateBrandVoiceContent({ ...profiles[index], ...input }, errors);
+    if (errors.length > 0) {
+      return { ok: false, reason: 'invalid', errors };
+    }
+
+    profiles[index] = { ...profiles[index], ...content, id, updatedAt: Date.now() };
+    await writeProfiles(profiles);
+    return { ok: true, data: profiles[index] };
+  });
+}
+
+/**
+ * 删除品牌口吻
+ */
+export function deleteBrandVoice(id: string): Promise<BrandVoiceStoreResult<{ id: string }>> {
+  return withStoreLock(async () => {
+    const profiles = await readProfiles();
+    const remaining = profiles.filter(profile => profile.id !== id);
+    if (remaining.length === profiles.length) {
+      return { ok: false, reason: 'not_found', errors: [`品牌口吻不存在: ${id}`] };
+    }
+    await writeProfiles(remaining);
+    return { ok: true, data: { id } };
+  });
+}
+
+/**
+ * 检查生成内容是否符合品牌口吻
+ * 只检查会发布出去的部分（标题、正文、标签、封面文案、首评），发布策略等内部建议不检查
+ */
+export function checkBrandVoice(content: GeneratedContent, profile: BrandVoiceProfile): BrandVoiceCheck {
+  const text = [content.titles, content.body, content.tags.join(' '), content.imagePrompt, content.selfComment].join('\n');
+  const lowerText = text.toLowerCase();
+
+  const forbiddenWords = profile.forbiddenWords.filter(word => lowerText.includes(word.toLowerCase()));
+
+  // 标准名称本身可能包含别名（如别名"精华"、标准名"XX精华"），先去掉标准名称再查别名
+  const productNaming = profile.productNames.flatMap(product => {
+    const textWithoutName = text.split(product.name).join('');
+    return product.aliases
+      .filter(alias => textWithoutName.includes(alias))
+      .map(alias => ({ alias, name: product.name }));
+  });
+
+  const signaturePhrasesUsed = profile.signaturePhrases.filter(phrase => text.includes(phrase));
+  const missingSignature = profile.signaturePhrases.length > 0 && signaturePhrasesUsed.length === 0;
+
+  return {
+    passed: forbiddenWords.length === 0 && productNaming.length === 0 && !missingSignature,
+    forbiddenWords,
+    productNaming,
+    signaturePhrasesUsed,
+    missingSignature,
+  };
+}
@@ -5,6 +5,7 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { ProcessedNote } from './types';
 
 const DEFAULT_CACHE_DIR = path.join(process.cwd(), 'data', 'cache');
@@ -60,6 +61,18 @@ export interface CacheData {
     avgInteraction: number;
     topAuthors: string[];
   };
+  analysis?: AnalysisCacheEntry; // 基于本次笔记数据的分析结果
+}
+
+/**
+ * 分析结果缓存，与笔记数据保存在同一个缓存文件中
+ * 笔记刷新时整个文件被重写，分析结果随之失效
+ */
+export interface AnalysisCacheEntry {
+  hash: string; // 笔记摘要和提示词版本的哈希
+  promptVersion: string;
+  result: unknown;
+  timestamp: number;
 }
 
 /**
@@ -218,6 +231,74 @@ export async function getCacheData(keyword: string): Promise<CacheData | null> {
   }
 }
 
+/**
+ * 计算分析结果缓存的哈希：笔记摘要或提示词版本变化都会导致哈希变化
+ */
+function getAnalysisHash(data: string, promptVersion: string): string {
+  return createHash('sha256').update(`${promptVersion}\n${data}`).digest('hex');
+}
+
+/**
+ * 读取关键词的有效缓存文件，不存在或已过期时返回 null
+ */
+async function readValidCacheFile(keyword: string): Promise<CacheData | null> {
+  try {
+    const content = await fs.readFile(getCacheFilePath(keyword), 'utf-8');
+    const cacheData: CacheData = JSON.parse(content);
+    return isCacheValid(cacheData.timestamp) ? cacheData : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取缓存的分析结果
+ * 只有笔记摘要和提示词版本都与缓存时一致才会命中
+ */
+export async function getCachedAnalysis<T>(keyword: string, data: string, promptVersion: string): Promise<T | null> {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+
+  const cacheData = await readValidCacheFile(keyword);
+  if (!cacheData?.analysis || cacheData.analysis.hash !== getAnalysisHash(data, promptVersion)) {
+    return null;
+  }
+
+  console.log(`📖 使用缓存的分析结果: ${keyword}`);
+  return cacheData.analysis.result as T;
+}
+
+/**
+ * 保存分析结果到关键词的缓存文件
+ * 笔记缓存不存在、已过期或在分析期间被刷新时跳过，避免把分析结果挂到不对应的笔记上
+ */
+export async function saveAnalysisCache(keyword: string, data: string, promptVersion: string, result: unknown): Promise<void> {
+  if (!isCacheEnabled()) {
+    return;
+  }
+
+  try {
+    const cacheData = await readValidCacheFile(keyword);
+    if (!cacheData || cacheData.data !== data) {
+      console.log(`📝 笔记缓存不存在或已变化，跳过保存分析结果: ${keyword}`);
+      return;
+    }
+
+    cacheData.analysis = {
+      hash: getAnalysisHash(data, promptVersion),
+      promptVersion,
+      result,
+      timestamp: Date.now()
+    };
+    await fs.writeFile(getCacheFilePath(keyword), JSON.stringify(cacheData, null, 2), 'utf-8');
+
+    console.log(`✅ 分析结果已缓存: ${keyword}`);
+  } catch (error) {
+    console.error('保存分析结果缓存失败:', error);
+  }
+}
+
 /**
  * 获取同分类的备用缓存数据
  */
@@ -0,0 +1,210 @@
+/**
+ * 模型熔断器
+ * 按模型统计近期失败次数，超过阈值后熔断，冷却期内降级链直接跳过该模型，
+ * 冷却结束后放行一次探测请求（半开），探测成功则恢复，失败则重新熔断
+ *
+ * 注意：状态保存在进程内存中，Serverless 环境下每个实例各自统计
+ */
+
+import { getEnvVar } from './utils';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(getEnvVar(name, ''), 10);
+  return Number.isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+// 熔断器配置
+export const CIRCUIT_BREAKER_CONFIG = {
+  // 统计窗口内失败达到该次数后熔断
+  FAILURE_THRESHOLD: readPositiveInt('CIRCUIT_BREAKER_FAILURE_THRESHOLD', 3),
+  // 失败统计窗口（毫秒）
+  FAILURE_WINDOW_MS: readPositiveInt('CIRCUIT_BREAKER_WINDOW_MS', 60000),
+  // 熔断冷却时间（毫秒），到期后进入半开状态
+  COOLDOWN_MS: readPositiveInt('CIRCUIT_BREAKER_COOLDOWN_MS', 30000),
+} as const;
+
+/**
+ * 检查是否启用熔断器，默认启用
+ */
+export function isCircuitBreakerEnabled(): boolean {
+  return process.env.ENABLE_CIRCUIT_BREAKER !== 'false';
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * 放行凭证：probeToken 非 0 表示半开状态下的探测请求，结束时凭它归还探测名额
+ */
+export interface CircuitPermit {
+  probeToken: number;
+}
+
+const PASS: CircuitPermit = { probeToken: 0 };
+
+/**
+ * 单个模型的熔断状态快照（用于健康检查）
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  recentFailures: number;
+  openedAt: string | null;
+  retryAt: string | null; // 熔断中时，下一次允许探测的时间
+  lastError: string | null;
+}
+
+interface CircuitEntry {
+  state: CircuitState;
+  failures: number[]; // 窗口内的失败时间戳
+  openedAt: number;
+  probeStartedAt: number; // 半开状态下探测请求的开始时间，0 表示没有探测在进行
+  probeToken: number; // 当前探测请求的凭证，超时后被新的探测接替时随之更换
+  lastError: string | null;
+}
+
+export class CircuitBreaker {
+  private circuits: Map<string, CircuitEntry> = new Map();
+  private probeSeq = 0;
+
+  private getEntry(model: string): CircuitEntry {
+    let entry = this.circuits.get(model);
+    if (!entry) {
+      entry = { state: 'closed', failures: [], openedAt: 0, probeStartedAt: 0, probeToken: 0, lastError: null };
+      this.circuits.set(model, entry);
+    }
+    return entry;
+  }
+
+  private pruneFailures(entry: CircuitEntry, now: number): void {
+    entry.failures = entry.failures.filter(time => now - time < CIRCUIT_BREAKER_CONFIG.FAILURE_WINDOW_MS);
+  }
+
+  /**
+   * 判断本次请求能否使用该模型
+   * 熔断冷却到期后转为半开，只放行一个探测请求；探测超过冷却时间仍未结束时允许重新探测
+   * 拿到探测凭证的调用方结束时必须记录成功/失败，或调用 releaseProbe 归还探测名额
+   * @returns 放行凭证，不可用时返回 null
+   */
+  tryAcquire(model: string): CircuitPermit | null {
+    if (!isCircuitBreakerEnabled()) return PASS;
+
+    const entry = this.getEntry(model);
+    const now = Date.now();
+
+    if (entry.state === 'closed') return PASS;
+
+    if (entry.state === 'open') {
+      if (now - entry.openedAt < CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS) {
+        return null;
+      }
+      entry.state = 'half_open';
+      entry.probeStartedAt = 0;
+      entry.probeToken = 0;
+      if (debugLoggingEnabled) {
+        console.log(`🔌 模型 ${model} 熔断冷却结束，进入半开状态`);
+      }
+    }
+
+    // 半开状态：同一时间只允许一个探测请求
+    if (entry.probeStartedAt && now - entry.probeStartedAt < CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS) {
+      return null;
+    }
+    entry.probeStartedAt = now;
+    entry.probeToken = ++this.probeSeq;
+    return { probeToken: entry.probeToken };
+  }
+
+  /**
+   * 归还半开状态的探测名额，不改变熔断状态
+   * 用于探测以取消、排队超时、输出校验失败等不计入熔断的结果结束的情况；
+   * 已记录成功/失败，或探测已超时被其他请求接替（凭证不一致）时为空操作
+   */
+  releaseProbe(model: string, probeToken: number): void {
+    if (!isCircuitBreakerEnabled()) return;
+
+    const entry = this.getEntry(model);
+    if (entry.state === 'half_open' && entry.probeToken === probeToken) {
+      entry.probeStartedAt = 0;
+      entry.probeToken = 0;
+    }
+  }
+
+  /**
+   * 记录成功调用，关闭熔断并清空失败计数
+   */
+  recordSuccess(model: string): void {
+    if (!isCircuitBreakerEnabled()) return;
+
+    const entry = this.getEntry(model);
+    if (entry.state !== 'closed' && debugLoggingEnabled) {
+      console.log(`✅ 模型 ${model} 探测成功，熔断恢复`);
+    }
+    entry.state = 'closed';
+    entry.failures = [];
+    entry.openedAt = 0;
+    entry.probeStartedAt = 0;
+    entry.probeToken = 0;
+  }
+
+  /**
+   * 记录失败调用，达到阈值或半开探测失败时熔断
+   */
+  recordFailure(model: string, error?: Error): void {
+    if (!isCircuitBreakerEnabled()) return;
+
+    const entry = this.getEntry(model);
+    const now = Date.now();
+    entry.lastError = error?.message || null;
+    entry.failures.push(now);
+    this.pruneFailures(entry, now);
+
+    if (entry.state === 'half_open' || entry.failures.length >= CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD) {
+      if (entry.state !== 'open') {
+        console.warn(`🔌 模型 ${model} 已熔断，${Math.round(CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS / 1000)}秒内跳过该模型`);
+      }
+      entry.state = 'open';
+      entry.openedAt = now;
+      entry.probeStartedAt = 0;
+      entry.probeToken = 0;
+    }
+  }
+
+  /**
+   * 当前是否处于熔断状态（冷却中）
+   */
+  isOpen(model: string): boolean {
+    return isCircuitBreakerEnabled() && this.getEntry(model).state === 'open';
+  }
+
+  /**
+   * 获取模型的熔断状态快照
+   */
+  getSnapshot(model: string): CircuitSnapshot {
+    const entry = this.getEntry(model);
+    this.pruneFailures(entry, Date.now());
+
+    // 冷却已到期但还没有请求触发状态转换时，按半开展示
+    const cooledDown = entry.state === 'open' && Date.now() - entry.openedAt >= CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS;
+    const state: CircuitState = cooledDown ? 'half_open' : entry.state;
+
+    return {
+      state,
+      recentFailures: entry.failures.length,
+      openedAt: entry.openedAt ? new Date(entry.openedAt).toISOString() : null,
+      retryAt: state === 'open' ? new Date(entry.openedAt + CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS).toISOString() : null,
+      lastError: entry.lastError,
+    };
+  }
+
+  /**
+   * 重置所有熔断状态（用于配置更新后）
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+}
+
+// 导出单例实例，AIManager 和健康检查共享同一份状态
+export const circuitBreaker = new CircuitBreaker();
@@ -0,0 +1,249 @@
+/**
+ * 上游AI调用并发限制
+ * 按模型（provider:model）限制同时进行的请求数，按提供方配置上限时该提供方的所有模型共用一个上限，超出部分进入优先级队列排队：
+ * 交互式请求（页面）优先于批量请求（n8n 等自动化流程），同优先级先到先得
+ *
+ * 注意：计数保存在进程内存中，Serverless 环境下每个实例各自限流
+ */
+
+import { getEnvVar } from './utils';
+import { CancelledError } from './error-handler';
+import type { ModelEntry } from './ai-providers';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+/**
+ * 请求优先级
+ */
+export type RequestPriority = 'interactive' | 'batch';
+
+const PRIORITY_WEIGHT: Record<RequestPriority, number> = {
+  interactive: 1,
+  batch: 0,
+};
+
+/**
+ * 解析请求携带的优先级，未指定或无法识别时按批量处理
+ */
+export function parseRequestPriority(value: unknown): RequestPriority {
+  return value === 'interactive' ? 'interactive' : 'batch';
+}
+
+// 默认每个模型的最大并发数
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * 模型适用的并发上限，key 为计数的维度：模型配置项，或按提供方配置时的提供方名
+ */
+export interface ConcurrencyLimit {
+  key: string;
+  limit: number;
+}
+
+/**
+ * 读取模型的并发上限
+ * AI_CONCURRENCY_LIMITS 为 JSON，键为模型配置项或提供方名，优先匹配模型配置项；
+ * 按提供方名匹配时，该提供方下的所有模型合计不超过上限
+ * 示例: {"gemini:gemini-2.5-pro": 2, "ollama": 1}
+ * 未匹配时每个模型各自使用 AI_MAX_CONCURRENCY（默认 4），0 表示不限制
+ */
+export function getConcurrencyLimit(entry: ModelEntry): ConcurrencyLimit {
+  const raw = getEnvVar('AI_CONCURRENCY_LIMITS');
+  if (raw) {
+    try {
+      const limits = JSON.parse(raw);
+      const modelLimit = limits?.[entry.name];
+      if (typeof modelLimit === 'number' && modelLimit >= 0) {
+        return { key: entry.name, limit: Math.floor(modelLimit) };
+      }
+      const providerLimit = limits?.[entry.provider];
+      if (typeof providerLimit === 'number' && providerLimit >= 0) {
+        return { key: entry.provider, limit: Math.floor(providerLimit) };
+      }
+    } catch {
+      console.warn('⚠️ AI_CONCURRENCY_LIMITS 不是有效的JSON，使用默认并发上限');
+    }
+  }
+
+  const defaultLimit = parseInt(getEnvVar('AI_MAX_CONCURRENCY', String(DEFAULT_MAX_CONCURRENCY)), 10);
+  return { key: entry.name, limit: Number.isNaN(defaultLimit) || defaultLimit < 0 ? DEFAULT_MAX_CONCURRENCY : defaultLimit };
+}
+
+/**
+ * 排队超时（模型本身未必故障，不计入熔断）
+ */
+export class QueueTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`模型 ${model} 排队超时 (${timeoutMs}ms)`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+/**
+ * 排队选项
+ */
+export interface AcquireOptions {
+  priority: RequestPriority;
+  timeoutMs: number; // 最长排队时间
+  signal?: AbortSignal;
+  onQueued?: (position: number) => void; // 排队位置变化时回调（从 1 开始）
+}
+
+/**
+ * 单个模型或提供方的排队统计（用于健康检查）
+ */
+export interface ConcurrencyStats {
+  limit: number;
+  active: number;
+  queued: number;
+  queuedInteractive: number;
+  queuedBatch: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  seq: number;
+  position: number;
+  grant: () => void;
+  onQueued?: (position: number) => void;
+}
+
+interface SlotState {
+  limit: number;
+  active: number;
+  queue: Waiter[];
+}
+
+export class ConcurrencyLimiter {
+  private slots: Map<string, SlotState> = new Map();
+  private seq = 0;
+
+  private getSlot(entry: ModelEntry): SlotState {
+    // 每次读取最新配置，调整上限后无需重启
+    const { key, limit } = getConcurrencyLimit(entry);
+    let slot = this.slots.get(key);
+    if (!slot) {
+      slot = { limit: 0, active: 0, queue: [] };
+      this.slots.set(key, slot);
+    }
+    slot.limit = limit;
+    return slot;
+  }
+
+  /**
+   * 通知排队中的请求最新位置（只在位置变化时回调）
+   */
+  private notifyPositions(slot: SlotState): void {
+    slot.queue.forEach((waiter, index) => {
+      const position = index + 1;
+      if (waiter.position !== position) {
+        waiter.position = position;
+        waiter.onQueued?.(position);
+      }
+    });
+  }
+
+  private dispatch(slot: SlotState): void {
+    while (slot.queue.length > 0 && (slot.limit === 0 || slot.active < slot.limit)) {
+      const waiter = slot.queue.shift()!;
+      slot.active++;
+      waiter.grant();
+    }
+    this.notifyPositions(slot);
+  }
+
+  /**
+   * 获取调用许可，返回释放函数（可重复调用，只生效一次）
+   * 排队超时抛出 QueueTimeoutError，调用方取消时抛出 CancelledError
+   */
+  async acquire(entry: ModelEntry, options: AcquireOptions): Promise<() => void> {
+    const slot = this.getSlot(entry);
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      slot.active--;
+      this.dispatch(slot);
+    };
+
+    if (slot.queue.length === 0 && (slot.limit === 0 || slot.active < slot.limit)) {
+      slot.active++;
+      return release;
+    }
+
+    if (options.signal?.aborted) {
+      throw new CancelledError();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      const remove = () => {
+        const index = slot.queue.indexOf(waiter);
+        if (index !== -1) {
+          slot.queue.splice(index, 1);
+          this.notifyPositions(slot);
+        }
+      };
+      const onAbort = () => {
+        remove();
+        cleanup();
+        reject(new CancelledError());
+      };
+
+      const waiter: Waiter = {
+        priority: options.priority,
+        seq: this.seq++,
+        position: 0,
+        grant: () => {
+          cleanup();
+          resolve();
+        },
+        onQueued: options.onQueued,
+      };
+
+      timeoutId = setTimeout(() => {
+        remove();
+        cleanup();
+        reject(new QueueTimeoutError(entry.name, options.timeoutMs));
+      }, Math.max(options.timeoutMs, 0));
+      options.signal?.addEventListener('abort', onAbort);
+
+      // 高优先级排在前面，同优先级按到达顺序
+      slot.queue.push(waiter);
+      slot.queue.sort((a, b) => (PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority]) || (a.seq - b.seq));
+
+      if (debugLoggingEnabled) {
+        console.log(`🚦 模型 ${entry.name} 并发已满 (${slot.active}/${slot.limit})，${options.priority} 请求进入排队`);
+      }
+      this.notifyPositions(slot);
+    });
+
+    return release;
+  }
+
+  /**
+   * 获取各模型（按提供方限流时为各提供方）的并发和排队情况
+   */
+  getStats(): Record<string, ConcurrencyStats> {
+    const stats: Record<string, ConcurrencyStats> = {};
+    this.slots.forEach((slot, name) => {
+      const queuedInteractive = slot.queue.filter(waiter => waiter.priority === 'interactive').length;
+      stats[name] = {
+        limit: slot.limit,
+        active: slot.active,
+        queued: slot.queue.length,
+        queuedInteractive,
+        queuedBatch: slot.queue.length - queuedInteractive,
+      };
+    });
+    return stats;
+  }
+}
+
+// 导出单例实例，AIManager 和健康检查共享同一份状态
+export const concurrencyLimiter = new ConcurrencyLimiter();
@@ -22,6 +22,7 @@ export const ERROR_MESSAGES = {
   AI_CONNECTION_ERROR: 'AI连接失败',
   SERVER_ERROR: '服务器错误',
   GENERATION_CANCELLED: '生成已取消',
+  CONTENT_TOO_SIMILAR: '生成内容与近期同主题内容过于相似，请重新生成',
 } as const;
 
 // 成功消息常量
@@ -41,11 +42,16 @@ export const CONFIG = {
   ANALYSIS_TEMPERATURE: 0.3,
   GEN_TEMPERATURE_MIN: 0.65,
   GEN_TEMPERATURE_MAX: 0.9,
+  MIN_TEMPERATURE: 0, // 请求可显式指定的温度范围
+  MAX_TEMPERATURE: 2,
   TARGET_NOTES_COUNT: 40,
   MAX_PAGES: 3,
   TRACE_ID_LENGTH: 16,
   // 流式生成配置
   MAX_CONTENT_LENGTH: 8000, // 限制内容长度，防止提示词过长
+  MAX_CANDIDATES: 4, // 单次请求最多并行生成的候选版本数
+  MAX_REWRITE_LENGTH: 5000, // 改写接口接受的原文最大长度
+  MAX_AI_FLAVOR_LENGTH: 10000, // AI味检测接口接受的文本最大长度
   STREAM_CHUNK_SIZE: 8, // 流式输出时每个块的字符数
   TYPEWRITER_INTERVAL: 30, // 打字机效果间隔(ms)
   // 缓存配置
@@ -67,6 +73,9 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  CLIENT_CLOSED_REQUEST: 499, // 客户端在响应前断开连接
   INTERNAL_SERVER_ERROR: 500,
 } as const;
 
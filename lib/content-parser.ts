@@ -0,0 +1,258 @@
+/**
+ * 生成内容解析模块
+ * 把模型输出的 Markdown 按 "## N. 标题" 分段，解析为 GeneratedContent 结构。
+ * 流式场景下逐块增量解析，产出 section_start / section_delta / section_end 事件，
+ * 页面、n8n 等调用方无需再各自用正则拆分内容
+ */
+
+import { DEFAULT_PLATFORM, PlatformId, formatTag } from './platforms';
+import type { GeneratedContent } from './types';
+
+/**
+ * 内容分段名称，与 GeneratedContent 的字段一一对应
+ */
+export type ContentSection = keyof GeneratedContent;
+
+/**
+ * 各分段的标准标题行，与生成提示词约定的输出格式一致
+ */
+export const SECTION_HEADINGS: Record<ContentSection, string> = {
+  titles: '## 1. 爆款标题创作',
+  body: '## 2. 正文内容',
+  tags: '## 3. 关键词标签',
+  imagePrompt: '## 4. AI绘画提示词',
+  selfComment: '## 5. 首评关键词引导',
+  strategy: '## 6. 发布策略建议',
+  playbook: '## 7. 小红书增长 Playbook',
+};
+
+/**
+ * 支持单独重新生成的分段
+ */
+export const REGENERABLE_SECTIONS = ['titles', 'body', 'tags', 'imagePrompt', 'selfComment', 'strategy'] as const;
+
+export type RegenerableSection = typeof REGENERABLE_SECTIONS[number];
+
+export function isRegenerableSection(value: unknown): value is RegenerableSection {
+  return typeof value === 'string' && (REGENERABLE_SECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * 各分段的标题行，按提示词约定的编号和名称匹配（兼容模型常见的改写）
+ */
+const SECTION_HEADERS: Array<{ section: ContentSection; pattern: RegExp }> = [
+  { section: 'titles', pattern: /^##\s*1[.、]?\s*(爆款标题创作|标题|生成标题)/i },
+  { section: 'body', pattern: /^##\s*2[.、]?\s*(正文内容|笔记正文|内容|正文|文案内容)/i },
+  { section: 'tags', pattern: /^##\s*3[.、]?\s*(关键词标签|标签|关键词)/i },
+  { section: 'imagePrompt', pattern: /^##\s*4[.、]?\s*(AI绘画提示词|绘画提示词|AI绘画|绘画提示)/i },
+  { section: 'selfComment', pattern: /^##\s*5[.、]?\s*(首评关键词引导|首评)/i },
+  { section: 'strategy', pattern: /^##\s*6[.、]?\s*(发布策略建议|发布策略)/i },
+  { section: 'playbook', pattern: /^##\s*7[.、]?\s*(小红书增长 Playbook|增长 Playbook)/i },
+];
+
+/**
+ * 流式解析事件
+ * section_delta 为分段的原始文本增量；section_end 携带整理后的最终值（标签为数组）
+ */
+export type SectionEvent =
+  | { type: 'section_start'; section: ContentSection }
+  | { type: 'section_delta'; section: ContentSection; content: string }
+  | { type: 'section_end'; section: ContentSection; value: string | string[] };
+
+/**
+ * 创建空的生成内容
+ */
+export function createEmptyGeneratedContent(): GeneratedContent {
+  return {
+    titles: '',
+    body: '',
+    tags: [],
+    imagePrompt: '',
+    selfComment: '',
+    strategy: '',
+    playbook: ''
+  };
+}
+
+/**
+ * 从标签分段文本中提取标签：支持 "#标签" 和列表项两种写法，去重并去掉 # 号
+ */
+export function extractTags(sectionContent: string): string[] {
+  const tagMatches = sectionContent.match(/#[\u4e00-\u9fa5a-zA-Z0-9_]+/g) || [];
+  const listTagMatches = sectionContent.match(/[-*]\s*([^\n]+)/g) || [];
+  const extractedTags = [
+    ...tagMatches.map(tag => tag.replace(/^#/, '')),
+    ...listTagMatches.map(item => item.replace(/[-*]\s*/, '').trim())
+  ];
+  return Array.from(new Set(extractedTags)).filter(Boolean);
+}
+
+function matchSectionHeader(line: string): ContentSection | null {
+  const trimmed = line.trim();
+  for (const { section, pattern } of SECTION_HEADERS) {
+    if (pattern.test(trimmed)) {
+      return section;
+    }
+  }
+  return null;
+}
+
+/**
+ * 未结束的行是否可能是分段标题的前半截（需要等整行到齐再判断）
+ */
+function mightBeSectionHeader(partialLine: string): boolean {
+  return /^\s*#{0,2}$/.test(partialLine) || /^\s*##/.test(partialLine);
+}
+
+/**
+ * 增量分段解析器
+ * 标题行必须独占一行，未结束的行若可能是标题会先缓存，其余文本立即作为增量输出
+ */
+export class SectionStreamParser {
+  private buffer = '';
+  private atLineStart = true;
+  private current: ContentSection | null = null;
+  private preamble = ''; // 第一个分段标题之前的内容
+  private rawSections: Partial<Record<ContentSection, string>> = {};
+
+  /**
+   * 输入一段新生成的文本，返回由此产生的事件
+   */
+  push(chunk: string): SectionEvent[] {
+    const events: SectionEvent[] = [];
+    this.buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newlineIndex + 1);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.processLine(line, events);
+      this.atLineStart = true;
+    }
+
+    if (this.buffer && !(this.atLineStart && mightBeSectionHeader(this.buffer))) {
+      this.appendText(this.buffer, events);
+      this.buffer = '';
+      this.atLineStart = false;
+    }
+
+    return events;
+  }
+
+  /**
+   * 输出结束：处理缓存的半行并结束最后一个分段
+   */
+  finish(): SectionEvent[] {
+    const events: SectionEvent[] = [];
+    if (this.buffer) {
+      this.processLine(this.buffer, events);
+      this.buffer = '';
+    }
+    this.endSection(events);
+    return events;
+  }
+
+  /**
+   * 丢弃已解析的内容（模型从头重写时使用）
+   */
+  reset(): void {
+    this.buffer = '';
+    this.atLineStart = true;
+    this.current = null;
+    this.preamble = '';
+    this.rawSections = {};
+  }
+
+  /**
+   * 获取当前已解析出的内容
+   * 一个分段标题都没有时，全部内容暂时视为标题
+   */
+  getContent(): GeneratedContent {
+    const content = createEmptyGeneratedContent();
+    (Object.keys(this.rawSections) as ContentSection[]).forEach(section => {
+      const value = this.finalizeSection(section);
+      if (section === 'tags') {
+        content.tags = value as string[];
+      } else {
+        content[section] = value as string;
+      }
+    });
+
+    if (!this.rawSections.titles && this.preamble.trim()) {
+      content.titles = this.preamble.trim();
+    }
+    return content;
+  }
+
+  /**
+   * 是否解析到了该分段的标题（没有任何分段标题时 getContent 中的标题来自前导文本，不算）
+   */
+  hasSection(section: ContentSection): boolean {
+    return this.rawSections[section] !== undefined;
+  }
+
+  private processLine(line: string, events: SectionEvent[]): void {
+    const section = this.atLineStart ? matchSectionHeader(line) : null;
+    if (section && this.rawSections[section] === undefined) {
+      this.endSection(events);
+      this.current = section;
+      this.rawSections[section] = '';
+      events.push({ type: 'section_start', section });
+      return;
+    }
+    this.appendText(line, events);
+  }
+
+  private appendText(text: string, events: SectionEvent[]): void {
+    if (!this.current) {
+      this.preamble += text;
+      return;
+    }
+
+    // 分段开头的空白行不输出
+    const existing = this.rawSections[this.current] || '';
+    const content = existing ? text : text.replace(/^\s+/, '');
+    if (!content) return;
+
+    this.rawSections[this.current] = existing + content;
+    events.push({ type: 'section_delta', section: this.current, content });
+  }
+
+  private endSection(events: SectionEvent[]): void {
+    if (!this.current) return;
+    events.push({ type: 'section_end', section: this.current, value: this.finalizeSection(this.current) });
+    this.current = null;
+  }
+
+  private finalizeSection(section: ContentSection): string | string[] {
+    const raw = (this.rawSections[section] || '').trim();
+    return section === 'tags' ? extractTags(raw) : raw;
+  }
+}
+
+/**
+ * 一次性解析完整的生成内容
+ */
+export function parseGeneratedContent(content: string): GeneratedContent {
+  const parser = new SectionStreamParser();
+  parser.push(content);
+  parser.finish();
+  return parser.getContent();
+}
+
+/**
+ * 把结构化内容还原为 Markdown 全文（用于复制全文，以及作为上下文交给模型），标签按平台的写法输出
+ */
+export function serializeGeneratedContent(content: GeneratedContent, platform: PlatformId = DEFAULT_PLATFORM): string {
+  return (Object.keys(SECTION_HEADINGS) as ContentSection[])
+    .map(section => {
+      const value = section === 'tags'
+        ? content.tags.map(tag => formatTag(tag, platform)).join(' ')
+        : content[section];
+      // 小红书以外的平台，增长 Playbook 标题不带平台名，与生成提示词一致
+      const heading = section === 'playbook' && platform !== 'xiaohongshu' ? '## 7. 增长 Playbook' : SECTION_HEADINGS[section];
+      return value ? `${heading}\n${value}` : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
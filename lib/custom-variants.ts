@@ -0,0 +1,337 @@
+/**
+ * 自定义写作变体存储模块
+ * 团队通过 API 维护的写作变体落盘保存，与内置变体合并为随机池；
+ * 每个变体（含内置变体）都可以单独设置启用状态和随机权重
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { validateWithSchema, SchemaNode } from './analysis-schema';
+import {
+  EMOJI_DENSITIES,
+  EmojiDensity,
+  GenerationVariant,
+  VariantPool,
+  VariantPoolEntry,
+  getBuiltinVariants
+} from './generation-variants';
+
+function resolveVariantsDir(): string {
+  if (process.env.VARIANTS_DIR) {
+    return process.env.VARIANTS_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'variants');
+  }
+
+  return path.join(process.cwd(), 'data', 'variants');
+}
+
+// 自定义变体配置
+export const CUSTOM_VARIANTS_CONFIG = {
+  // 变体存储目录，所有变体保存在同一个 JSON 文件中
+  VARIANTS_DIR: resolveVariantsDir(),
+  FILE_NAME: 'variants.json',
+  // 自定义变体数量上限
+  MAX_CUSTOM_VARIANTS: 50,
+  // 随机权重上限
+  MAX_WEIGHT: 100,
+  // 单条文本的最大长度
+  MAX_TEXT_LENGTH: 300,
+} as const;
+
+/**
+ * 变体的启用状态和随机权重
+ */
+export interface VariantSettings {
+  enabled: boolean;
+  weight: number;
+}
+
+/**
+ * 自定义变体记录
+ */
+export interface CustomVariantRecord extends GenerationVariant, VariantSettings {
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 存储文件结构：自定义变体 + 内置变体的启用/权重设置
+ */
+interface VariantStoreData {
+  variants: CustomVariantRecord[];
+  builtinSettings: Record<string, VariantSettings>;
+}
+
+/**
+ * 存储操作结果，失败时 reason 对应 HTTP 状态：invalid 400，not_found 404，conflict 409
+ */
+export type VariantStoreResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: 'invalid' | 'not_found' | 'conflict'; errors: string[] };
+
+// 变体内容 schema，对应 GenerationVariant 中的文本字段
+const requiredString: SchemaNode = { type: 'string', required: true, nonEmpty: true };
+const requiredStringList: SchemaNode = { type: 'array', items: requiredString, required: true, minItems: 1 };
+
+const VARIANT_CONTENT_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    label: requiredString,
+    persona: requiredString,
+    angle: requiredString,
+    openingOptions: requiredStringList,
+    structure: requiredStringList,
+    styleRules: { type: 'array', items: requiredString, required: true },
+    endingOptions: requiredStringList,
+  }
+};
+
+// 更新时出现任一内容字段即视为修改内容，需要提供完整内容
+const VARIANT_CONTENT_FIELDS = ['label', 'persona', 'angle', 'openingOptions', 'structure', 'styleRules', 'endingOptions', 'emojiDensity'];
+
+const VARIANT_ID_PATTERN = /^[a-z0-9_-]{2,40}$/;
+
+function getStoreFilePath(): string {
+  return path.join(CUSTOM_VARIANTS_CONFIG.VARIANTS_DIR, CUSTOM_VARIANTS_CONFIG.FILE_NAME);
+}
+
+async function readStore(): Promise<VariantStoreData> {
+  try {
+    const content = await fs.readFile(getStoreFilePath(), 'utf-8');
+    const data = JSON.parse(content) as Partial<VariantStoreData>;
+    return {
+      variants: Array.isArray(data.variants) ? data.variants : [],
+      builtinSettings: data.builtinSettings && typeof data.builtinSettings === 'object' ? data.builtinSettings : {},
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('读取自定义写作变体失败，按只有内置变体处理:', error);
+    }
+    return { variants: [], builtinSettings: {} };
+  }
+}
+
+async function writeStore(data: VariantStoreData): Promise<void> {
+  await fs.mkdir(CUSTOM_VARIANTS_CONFIG.VARIANTS_DIR, { recursive: true });
+  await fs.writeFile(getStoreFilePath(), JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// 串行执行写操作，避免并发请求读到旧数据后互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeChain.then(operation, operation);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+function isBuiltinVariantId(id: string): boolean {
+  return getBuiltinVariants().some(variant => variant.id === id);
+}
+
+function toGenerationVariant(record: CustomVariantRecord): GenerationVariant {
+  return {
+    id: record.id,
+    label: record.label,
+    persona: record.persona,
+    angle: record.angle,
+    openingOptions: record.openingOptions,
+    structure: record.structure,
+    styleRules: record.styleRules,
+    endingOptions: record.endingOptions,
+    emojiDensity: record.emojiDensity,
+  };
+}
+
+function buildPoolEntries(store: VariantStoreData): VariantPoolEntry[] {
+  const builtinEntries = getBuiltinVariants().map(variant => ({
+    variant,
+    enabled: store.builtinSettings[variant.id]?.enabled ?? true,
+    weight: store.builtinSettings[variant.id]?.weight ?? 1,
+    source: 'builtin' as const,
+  }));
+  const customEntries = store.variants.map(record => ({
+    variant: toGenerationVariant(record),
+    enabled: record.enabled,
+    weight: record.weight,
+    source: 'custom' as const,
+  }));
+  return [...builtinEntries, ...customEntries];
+}
+
+/**
+ * 启用的变体（且权重大于 0）至少要保留一个，否则随机池为空
+ */
+function hasEnabledVariant(store: VariantStoreData): boolean {
+  return buildPoolEntries(store).some(entry => entry.enabled && entry.weight > 0);
+}
+
+/**
+ * 校验启用状态和权重，未提供的字段不校验
+ */
+function validateSettings(input: Record<string, unknown>, errors: string[]): Partial<VariantSettings> {
+  const settings: Partial<VariantSettings> = {};
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled === 'boolean') {
+      settings.enabled = input.enabled;
+    } else {
+      errors.push('enabled 应该是布尔值');
+    }
+  }
+  if (input.weight !== undefined) {
+    const weight = input.weight;
+    if (typeof weight === 'number' && weight >= 0 && weight <= CUSTOM_VARIANTS_CONFIG.MAX_WEIGHT) {
+      settings.weight = weight;
+    } else {
+      errors.push(`weight 应该是 0-${CUSTOM_VARIANTS_CONFIG.MAX_WEIGHT} 之间的数字`);
+    }
+  }
+  return settings;
+}
+
+/**
+ * 校验变体内容字段，返回规整后的内容（文本去除首尾空白）
+ */
+function validateVariantContent(input: Record<string, unknown>, errors: string[]): Omit<GenerationVariant, 'id'> {
+  const validation = validateWithSchema<Omit<GenerationVariant, 'id' | 'emojiDensity'>>(input, VARIANT_CONTENT_SCHEMA);
+  errors.push(...validation.errors);
+
+  const content = validation.data;
+  const texts = [content.label, content.persona, content.angle, ...content.openingOptions, ...content.structure, ...content.styleRules, ...content.endingOptions];
+  if (texts.some(text => text.length > CUSTOM_VARIANTS_CONFIG.MAX_TEXT_LENGTH)) {
+    errors.push(`单条文本不能超过 ${CUSTOM_VARIANTS_CONFIG.MAX_TEXT_LENGTH} 个字符`);
+  }
+
+  if (!EMOJI_DENSITIES.includes(input.emojiDensity as EmojiDensity)) {
+    errors.push(`emojiDensity 必须是以下之一: ${EMOJI_DENSITIES.join(', ')}`);
+  }
+
+  const trimList = (list: string[]) => list.map(item => item.trim());
+  return {
+    label: content.label.trim(),
+    persona: content.persona.trim(),
+    angle: content.angle.trim(),
+    openingOptions: trimList(content.openingOptions),
+    structure: trimList(content.structure),
+    styleRules: trimList(content.styleRules),
+    endingOptions: trimList(content.endingOptions),
+    emojiDensity: input.emojiDensity as EmojiDensity,
+  };
+}
+
+/**
+ * 加载随机池：内置变体 + 自定义变体，附带各自的启用状态和权重
+ */
+export async function loadVariantPool(): Promise<VariantPool> {
+  return new VariantPool(buildPoolEntries(await readStore()));
+}
+
+/**
+ * 新增自定义变体
+ */
+export function createCustomVariant(input: Record<string, unknown>): Promise<VariantStoreResult<CustomVariantRecord>> {
+  return withStoreLock(async () => {
+    const errors: string[] = [];
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    if (!VARIANT_ID_PATTERN.test(id)) {
+      errors.push('id 只能包含小写字母、数字、下划线和连字符，长度 2-40');
+    }
+    const content = validateVariantContent(input, errors);
+    const settings = validateSettings(input, errors);
+    if (errors.length > 0) {
+      return { ok: false, reason: 'invalid', errors };
+    }
+
+    const store = await readStore();
+    if (isBuiltinVariantId(id) || store.variants.some(variant => variant.id === id)) {
+      return { ok: false, reason: 'conflict', errors: [`写作变体已存在: ${id}`] };
+    }
+    if (store.variants.length >= CUSTOM_VARIANTS_CONFIG.MAX_CUSTOM_VARIANTS) {
+      return { ok: false, reason: 'invalid', errors: [`自定义变体最多 ${CUSTOM_VARIANTS_CONFIG.MAX_CUSTOM_VARIANTS} 个`] };
+    }
+
+    const now = Date.now();
+    const record: CustomVariantRecord = {
+      id,
+      ...content,
+      enabled: settings.enabled ?? true,
+      weight: settings.weight ?? 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.variants.push(record);
+    await writeStore(store);
+    return { ok: true, data: record };
+  });
+}
+
+/**
+ * 更新写作变体
+ * 自定义变体可更新内容（需提供完整内容字段）和启用状态/权重；内置变体只能更新启用状态和权重
+ */
+export function updateVariant(id: string, input: Record<string, unknown>): Promise<VariantStoreResult<VariantPoolEntry>> {
+  return withStoreLock(async () => {
+    const store = await readStore();
+    const errors: string[] = [];
+    const settings = validateSettings(input, errors);
+    const hasContent = VARIANT_CONTENT_FIELDS.some(field => input[field] !== undefined);
+
+    if (isBuiltinVariantId(id)) {
+      if (hasContent) {
+        errors.push('内置变体只能修改 enabled 和 weight');
+      }
+      if (errors.length > 0) {
+        return { ok: false, reason: 'invalid', errors };
+      }
+      const current = store.builtinSettings[id] || { enabled: true, weight: 1 };
+      store.builtinSettings[id] = { ...current, ...settings };
+    } else {
+      const index = store.variants.findIndex(variant => variant.id === id);
+      if (index === -1) {
+        return { ok: false, reason: 'not_found', errors: [`写作变体不存在: ${id}`] };
+      }
+      const content = hasContent ? validateVariantContent(input, errors) : {};
+      if (errors.length > 0) {
+        return { ok: false, reason: 'invalid', errors };
+      }
+      store.variants[index] = { ...store.variants[index], ...content, ...settings, id, updatedAt: Date.now() };
+    }
+
+    if (!hasEnabledVariant(store)) {
+      return { ok: false, reason: 'invalid', errors: ['至少需要保留一个启用且权重大于 0 的写作变体'] };
+    }
+
+    await writeStore(store);
+    const entry = buildPoolEntries(store).find(item => item.variant.id === id) as VariantPoolEntry;
+    return { ok: true, data: entry };
+  });
+}
+
+/**
+ * 删除自定义变体（内置变体不能删除，可改为停用）
+ */
+export function deleteCustomVariant(id: string): Promise<VariantStoreResult<{ id: string }>> {
+  return withStoreLock(async () => {
+    if (isBuiltinVariantId(id)) {
+      return { ok: false, reason: 'invalid', errors: ['内置变体不能删除，可设置 enabled: false 停用'] };
+    }
+
+    const store = await readStore();
+    const remaining = store.variants.filter(variant => variant.id !== id);
+    if (remaining.length === store.variants.length) {
+      return { ok: false, reason: 'not_found', errors: [`写作变体不存在: ${id}`] };
+    }
+
+    const nextStore = { ...store, variants: remaining };
+    if (!hasEnabledVariant(nextStore)) {
+      return { ok: false, reason: 'invalid', errors: ['至少需要保留一个启用且权重大于 0 的写作变体'] };
+    }
+
+    await writeStore(nextStore);
+    return { ok: true, data: { id } };
+  });
+}
@@ -3,6 +3,8 @@
  * 提供统一的错误分类、处理和用户友好的错误消息
  */
 
+import { ERROR_MESSAGES } from './constants';
+
 /**
  * 错误类型枚举
  */
@@ -313,3 +315,22 @@ export class ConfigError extends Error {
     this.name = 'ConfigError';
   }
 }
+
+/**
+ * 创建取消错误（客户端断开连接等主动取消的请求，不应重试或降级）
+ */
+export class CancelledError extends Error {
+  constructor(message: string = ERROR_MESSAGES.GENERATION_CANCELLED) {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * 请求已被取消时抛出取消错误
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * 生成内容格式校验与修复
+ * 按目标平台的格式要求（标题字数、正文字数、标签数量、禁用 Markdown、正文不带标签、结尾不追加互动问句、小标题）
+ * 检查解析后的 GeneratedContent，并可让模型只修复违规的分段
+ */
+
+import { aiManager } from './ai-manager';
+import { getFormatRepairPrompt } from './prompts';
+import { filterSensitiveContent } from './sensitive-words';
+import { sanitizeText } from './utils';
+import { SectionStreamParser, serializeGeneratedContent, RegenerableSection } from './content-parser';
+import { DEFAULT_PLATFORM, PlatformId, getPlatformProfile } from './platforms';
+import type { RequestPriority } from './concurrency-limiter';
+import type { GeneratedContent } from './types';
+import type { UsageRecord } from './usage-tracker';
+
+/**
+ * 格式规则
+ */
+export type FormatRule =
+  | 'title_count'
+  | 'title_length'
+  | 'body_length'
+  | 'tag_count'
+  | 'markdown'
+  | 'tags_in_body'
+  | 'trailing_question'
+  | 'subheadings';
+
+/**
+ * 单条违规
+ */
+export interface FormatViolation {
+  rule: FormatRule;
+  section: RegenerableSection;
+  message: string;
+}
+
+/**
+ * 格式校验结果
+ */
+export interface FormatReport {
+  passed: boolean;
+  violations: FormatViolation[];
+}
+
+/**
+ * 生成接口推送的格式校验结果，repairedSections 为修复时实际替换的分段
+ */
+export interface FormatCheckResult extends FormatReport {
+  repairedSections: RegenerableSection[];
+}
+
+// 目标为 ES5，需要 u 标志的正则用构造函数创建
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u');
+// 变体选择符和肤色修饰符附着在前一个 emoji 上，不单独计字
+const EMOJI_MODIFIER_PATTERN = new RegExp('[\\uFE0E\\uFE0F]|\\p{Emoji_Modifier}', 'u');
+const ZERO_WIDTH_JOINER = '\u200D';
+
+/**
+ * 统计标题字数：emoji 计 2 字，由零宽连接符组合成的 emoji 整体计 2 字，其余字符各计 1 字
+ */
+export function countTitleLength(title: string): number {
+  let length = 0;
+  let joined = false;
+  for (const char of Array.from(title.trim())) {
+    if (char === ZERO_WIDTH_JOINER) {
+      joined = true;
+      continue;
+    }
+    if (EMOJI_MODIFIER_PATTERN.test(char)) {
+      continue;
+    }
+    if (EMOJI_PATTERN.test(char)) {
+      length += joined ? 0 : 2;
+    } else {
+      length += 1;
+    }
+    joined = false;
+  }
+  return length;
+}
+
+/**
+ * 整理单个标题：去掉列表符号、序号、"标题1:"前缀和首尾引号
+ */
+export function cleanTitle(raw: string): string {
+  return raw
+    .replace(/^\s*(?:(?:[-*•]|\d+[.、)）])\s*)?(?:标题\s*\d*\s*[:：])?\s*/, '')
+    .replace(/^["“「『]|["”」』]$/g, '')
+    .trim();
+}
+
+/**
+ * 从标题分段中提取各个标题，忽略模型照抄的括号说明
+ */
+export function extractTitles(titlesSection: string): string[] {
+  return titlesSection
+    .split('\n')
+    .filter(line => !/^\s*[(（]/.test(line))
+    .map(cleanTitle)
+    .filter(Boolean);
+}
+
+// 正文字数不计空白字符
+function countBodyLength(body: string): number {
+  return Array.from(body.replace(/\s/g, '')).length;
+}
+
+// Markdown 和格式符号：星号、方括号、反引号、标题井号
+const MARKDOWN_PATTERN = /[*`[\]]|^\s*#{1,6}\s/m;
+const TAG_PATTERN = /#[\u4e00-\u9fa5a-zA-Z0-9_]+/g;
+// 结尾互动：以问号结尾，或引导评论
+const INTERACTION_PATTERN = /[?？]\s*$|评论区|留言|告诉我|扣1/;
+// 单独成行的小标题："一、"、"1." 或 "01 " 开头且不超过 30 字
+const SUBHEADING_PATTERN = /^\s*(?:[一二三四五六七八九十]+、|\d{1,2}[.、]|0\d\s).{1,30}$/;
+
+// 正文最后一句（去掉末尾的 emoji 和空白）
+function getLastSentence(body: string): string {
+  const sentences = body.trim().split(/[。！!\n]/).map(item => item.trim()).filter(Boolean);
+  const last = sentences[sentences.length - 1] || '';
+  return Array.from(last).filter(char => !EMOJI_PATTERN.test(char) && !EMOJI_MODIFIER_PATTERN.test(char) && char !== ZERO_WIDTH_JOINER).join('').trim();
+}
+
+/**
+ * 按目标平台的格式要求检查内容，返回每一条违规
+ * 发布策略和增长 Playbook 允许使用列表和加粗，不检查格式符号
+ */
+export function validateGeneratedContent(content: GeneratedContent, platform: PlatformId = DEFAULT_PLATFORM): FormatReport {
+  const violations: FormatViolation[] = [];
+  const format = getPlatformProfile(platform).format;
+
+  const titles = extractTitles(content.titles);
+  if (titles.length !== format.titleCount) {
+    violations.push({ rule: 'title_count', section: 'titles', message: `标题应为 ${format.titleCount} 个，实际 ${titles.length} 个` });
+  }
+  for (const title of titles) {
+    const length = countTitleLength(title);
+    if (length > format.maxTitleLength) {
+      violations.push({ rule: 'title_length', section: 'titles', message: `标题「${title}」${length}字，超过${format.maxTitleLength}字（emoji计2字）` });
+    }
+  }
+
+  const bodyLength = countBodyLength(content.body);
+  if (bodyLength < format.minBodyLength || bodyLength > format.maxBodyLength) {
+    violations.push({ rule: 'body_length', section: 'body', message: `正文${bodyLength}字，应为${format.minBodyLength}-${format.maxBodyLength}字` });
+  }
+
+  if (content.tags.length < format.minTags || content.tags.length > format.maxTags) {
+    violations.push({ rule: 'tag_count', section: 'tags', message: `标签${content.tags.length}个，应为${format.minTags}-${format.maxTags}个` });
+  }
+
+  const markdownSections: Array<[RegenerableSection, string]> = [
+    ['titles', titles.join('\n')],
+    ['body', content.body],
+    ['imagePrompt', content.imagePrompt],
+    ['selfComment', content.selfComment],
+  ];
+  for (const [section, text] of markdownSections) {
+    if (MARKDOWN_PATTERN.test(text)) {
+      violations.push({ rule: 'markdown', section, message: '包含 Markdown 或星号、方括号等格式符号' });
+    }
+  }
+
+  const bodyTags = content.body.match(TAG_PATTERN) || [];
+  if (!format.tagsInBody && bodyTags.length > 0) {
+    violations.push({ rule: 'tags_in_body', section: 'body', message: `正文中出现标签：${Array.from(new Set(bodyTags)).join(' ')}` });
+  }
+
+  const lastSentence = getLastSentence(content.body);
+  if (!format.trailingQuestion && lastSentence && INTERACTION_PATTERN.test(lastSentence)) {
+    violations.push({ rule: 'trailing_question', section: 'body', message: `正文结尾追加了互动问句：${lastSentence}` });
+  }
+
+  const subheadings = content.body.split('\n').filter(line => SUBHEADING_PATTERN.test(line)).length;
+  if (subheadings < format.minSubheadings) {
+    violations.push({ rule: 'subheadings', section: 'body', message: `正文小标题${subheadings}个，至少需要${format.minSubheadings}个` });
+  }
+
+  return { passed: violations.length === 0, violations };
+}
+
+/**
+ * 修复调用的参数
+ */
+export interface FormatRepairOptions {
+  keyword: string;
+  userInfo: string;
+  platform: PlatformId;
+  route: string; // 发起调用的 API 路由，用于用量统计
+  remainingForAI: number;
+  priority: RequestPriority;
+  signal: AbortSignal;
+  onUsage: (record: UsageRecord) => void;
+}
+
+/**
+ * 让模型只修复违规的分段，其余分段保持不变；修复输出缺少任一待修复分段时不采用，保留原内容
+ * 返回修复后的内容和实际被替换的分段
+ */
+export async function repairGeneratedContent(
+  content: GeneratedContent,
+  report: FormatReport,
+  { keyword, userInfo, platform, route, remainingForAI, priority, signal, onUsage }: FormatRepairOptions
+): Promise<{ content: GeneratedContent; repairedSections: RegenerableSection[] }> {
+  const sections = Array.from(new Set(report.violations.map(violation => violation.section)));
+  const prompt = getFormatRepairPrompt(serializeGeneratedContent(content, platform), report.violations, sections, userInfo, keyword, platform);
+
+  let output = '';
+  let failure: Error | null = null;
+  await aiManager.generateStreamWithRetry(
+    prompt,
+    chunk => { output += chunk; },
+    error => { failure = error; },
+    remainingForAI,
+    {
+      task: 'generation',
+      route,
+      priority,
+      onUsage,
+      // 模型从头重写时丢弃已收到的半截内容
+      onReset: () => { output = ''; },
+      signal
+    }
+  );
+
+  if (failure) {
+    throw failure;
+  }
+
+  // 与整篇生成一致：去除水印字符并过滤敏感词
+  const parser = new SectionStreamParser();
+  parser.push(filterSensitiveContent(sanitizeText(output), 'replace'));
+  parser.finish();
+  const parsed = parser.getContent();
+
+  // 必须按分段标题解析出全部待修复分段才采用，否则（如模型没写分段标题，整段文本会被当作标题）保留原内容
+  const complete = sections.every(section => parser.hasSection(section) && parsed[section].length > 0);
+  if (!complete) {
+    console.warn(`⚠️ 格式修复输出缺少分段，保留原内容 (需要: ${sections.join(', ')})`);
+    return { content, repairedSections: [] };
+  }
+
+  const repaired = sections.reduce<GeneratedContent>(
+    (result, section) => ({ ...result, [section]: parsed[section] }),
+    content
+  );
+  return { content: repaired, repairedSections: sections };
+}
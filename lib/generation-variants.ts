@@ -4,8 +4,12 @@
  * 降低同一套提示词导致的标题/正文同质化。
  */
 
+import type { RandomSource } from './seeded-random';
+
 export type EmojiDensity = 'low' | 'medium' | 'high';
 
+export const EMOJI_DENSITIES: EmojiDensity[] = ['low', 'medium', 'high'];
+
 export interface GenerationVariant {
   id: string;
   label: string;
@@ -26,6 +30,34 @@ export interface GenerationStyleConfig {
   nonce: string;
 }
 
+/**
+ * 调用方显式指定的写作配置，未指定的字段仍随机选取
+ */
+export interface GenerationStyleOverrides {
+  variantId?: string;
+  opening?: string;
+  ending?: string;
+  depthModules?: string[];
+  emojiDensity?: EmojiDensity;
+}
+
+/**
+ * 随机池中的写作变体
+ * enabled 为 false 时不参与随机选取（仍可通过 variantId 显式指定），weight 为随机选取的相对权重
+ */
+export interface VariantPoolEntry {
+  variant: GenerationVariant;
+  enabled: boolean;
+  weight: number;
+  source: 'builtin' | 'custom';
+}
+
+export interface StyleOverridesParseResult {
+  isValid: boolean;
+  overrides: GenerationStyleOverrides;
+  errors: string[];
+}
+
 const VARIANTS: GenerationVariant[] = [
   {
     id: 'diary_recap',
@@ -334,43 +366,247 @@ function clampNumber(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function randomInt(min: number, max: number): number {
+function randomInt(min: number, max: number, random: RandomSource): number {
   const minCeil = Math.ceil(min);
   const maxFloor = Math.floor(max);
-  return Math.floor(Math.random() * (maxFloor - minCeil + 1)) + minCeil;
+  return Math.floor(random() * (maxFloor - minCeil + 1)) + minCeil;
 }
 
-function pickOne<T>(items: T[]): T {
-  return items[randomInt(0, items.length - 1)];
+function pickOne<T>(items: T[], random: RandomSource): T {
+  return items[randomInt(0, items.length - 1, random)];
 }
 
-function pickManyUnique<T>(items: T[], count: number): T[] {
+function pickManyUnique<T>(items: T[], count: number, random: RandomSource): T[] {
   const uniqueCount = clampNumber(count, 0, items.length);
   const pool = [...items];
   const picked: T[] = [];
   for (let i = 0; i < uniqueCount; i++) {
-    const index = randomInt(0, pool.length - 1);
+    const index = randomInt(0, pool.length - 1, random);
     picked.push(pool[index]);
     pool.splice(index, 1);
   }
   return picked;
 }
 
-export function pickRandomVariant(): GenerationVariant {
-  return pickOne(VARIANTS);
+/**
+ * 写作变体随机池：内置变体与自定义变体合并后按启用状态和权重随机选取
+ */
+export class VariantPool {
+  constructor(private readonly entries: VariantPoolEntry[]) {}
+
+  getEntries(): VariantPoolEntry[] {
+    return this.entries;
+  }
+
+  getVariants(): GenerationVariant[] {
+    return this.entries.map(entry => entry.variant);
+  }
+
+  getById(id: string): GenerationVariant | null {
+    return this.entries.find(entry => entry.variant.id === id)?.variant || null;
+  }
+
+  /**
+   * 按权重随机选取一个启用的变体；全部被停用时退回在所有变体中均匀选取
+   */
+  pickRandom(random: RandomSource = Math.random): GenerationVariant {
+    return this.pickDistinct(1, random)[0];
+  }
+
+  /**
+   * 按权重不放回地选取 count 个互不相同的启用变体（最多为启用变体总数）
+   */
+  pickDistinct(count: number, random: RandomSource = Math.random): GenerationVariant[] {
+    const enabled = this.entries.filter(entry => entry.enabled && entry.weight > 0);
+    const remaining = enabled.length > 0 ? [...enabled] : this.entries.map(entry => ({ ...entry, weight: 1 }));
+    const picked: GenerationVariant[] = [];
+
+    while (picked.length < count && remaining.length > 0) {
+      const totalWeight = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+      let target = random() * totalWeight;
+      let index = remaining.findIndex(entry => (target -= entry.weight) < 0);
+      if (index === -1) index = remaining.length - 1; // 浮点误差兜底
+      picked.push(remaining[index].variant);
+      remaining.splice(index, 1);
+    }
+    return picked;
+  }
 }
 
-export function pickRandomDepthModules(minCount: number = 2, maxCount: number = 3): string[] {
-  const count = randomInt(minCount, maxCount);
-  return pickManyUnique(DEPTH_MODULE_POOL, count);
+/**
+ * 只包含内置变体的随机池（未加载自定义变体时使用）
+ */
+export const BUILTIN_VARIANT_POOL = new VariantPool(
+  VARIANTS.map(variant => ({ variant, enabled: true, weight: 1, source: 'builtin' as const }))
+);
+
+/**
+ * 内置写作变体
+ */
+export function getBuiltinVariants(): GenerationVariant[] {
+  return VARIANTS;
 }
 
-export function createRandomGenerationStyleConfig(): GenerationStyleConfig {
-  const variant = pickRandomVariant();
-  const opening = pickOne(variant.openingOptions);
-  const ending = pickOne(variant.endingOptions);
-  const depthModules = pickRandomDepthModules();
-  const nonce = `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+/**
+ * 按 id 查找写作变体，不存在时返回 null
+ */
+export function getVariantById(id: string, pool: VariantPool = BUILTIN_VARIANT_POOL): GenerationVariant | null {
+  return pool.getById(id);
+}
 
-  return { variant, opening, ending, depthModules, nonce };
+/**
+ * 列出全部可选配置（写作变体、深度模块、emoji 密度），供调用方显式指定
+ */
+export function getGenerationStylePool(pool: VariantPool = BUILTIN_VARIANT_POOL): { entries: VariantPoolEntry[]; depthModules: string[]; emojiDensities: EmojiDensity[] } {
+  return {
+    entries: pool.getEntries(),
+    depthModules: DEPTH_MODULE_POOL,
+    emojiDensities: EMOJI_DENSITIES
+  };
+}
+
+/**
+ * 校验请求中的写作配置字段，取值必须来自配置池
+ * 只指定开头或结尾而未指定变体时，按开头/结尾所属的变体确定 variantId（多个变体都包含时优先选能同时匹配开头和结尾的）
+ */
+export function parseStyleOverrides(input: Record<string, unknown>, pool: VariantPool = BUILTIN_VARIANT_POOL): StyleOverridesParseResult {
+  const errors: string[] = [];
+  const overrides: GenerationStyleOverrides = {};
+  const { variantId, opening, ending, depthModules, emojiDensity } = input;
+
+  if (variantId !== undefined) {
+    if (typeof variantId === 'string' && pool.getById(variantId)) {
+      overrides.variantId = variantId;
+    } else {
+      errors.push(`variantId 不存在: ${String(variantId)}`);
+    }
+  }
+
+  // 开头和结尾只能选自同一个变体
+  const optionFields = [
+    { field: 'opening', value: opening, getOptions: (variant: GenerationVariant) => variant.openingOptions },
+    { field: 'ending', value: ending, getOptions: (variant: GenerationVariant) => variant.endingOptions }
+  ] as const;
+  for (const { field, value, getOptions } of optionFields) {
+    if (value === undefined) continue;
+    // 同一选项可能出现在多个变体中，收集全部所属变体
+    const owners = typeof value === 'string'
+      ? pool.getVariants().filter(variant => getOptions(variant).includes(value))
+      : [];
+    if (owners.length === 0) {
+      errors.push(`${field} 必须是 /api/variants 中列出的选项之一`);
+    } else if (overrides.variantId) {
+      // 变体已确定（显式指定或由开头确定）时，只要求该变体包含此选项
+      if (owners.some(owner => owner.id === overrides.variantId)) {
+        overrides[field] = value as string;
+      } else {
+        errors.push(`${field} 不属于写作变体 ${overrides.variantId}`);
+      }
+    } else {
+      // 未指定变体时，优先选同时包含其余选项的变体
+      const owner = owners.find(variant => optionFields.every(other =>
+        typeof other.value !== 'string' || other.getOptions(variant).includes(other.value)
+      )) || owners[0];
+      overrides.variantId = owner.id;
+      overrides[field] = value as string;
+    }
+  }
+
+  if (depthModules !== undefined) {
+    if (!Array.isArray(depthModules) || depthModules.length === 0) {
+      errors.push('depthModules 必须是非空数组');
+    } else {
+      const unknownModules = depthModules.filter(module => typeof module !== 'string' || !DEPTH_MODULE_POOL.includes(module));
+      if (unknownModules.length > 0) {
+        errors.push(`depthModules 包含未知的模块: ${unknownModules.map(String).join(', ')}`);
+      } else {
+        overrides.depthModules = Array.from(new Set(depthModules as string[]));
+      }
+    }
+  }
+
+  if (emojiDensity !== undefined) {
+    if (EMOJI_DENSITIES.includes(emojiDensity as EmojiDensity)) {
+      overrides.emojiDensity = emojiDensity as EmojiDensity;
+    } else {
+      errors.push(`emojiDensity 必须是以下之一: ${EMOJI_DENSITIES.join(', ')}`);
+    }
+  }
+
+  return { isValid: errors.length === 0, overrides, errors };
+}
+
+export function pickRandomVariant(random: RandomSource = Math.random, pool: VariantPool = BUILTIN_VARIANT_POOL): GenerationVariant {
+  return pool.pickRandom(random);
+}
+
+export function pickRandomDepthModules(minCount: number = 2, maxCount: number = 3, random: RandomSource = Math.random): string[] {
+  const count = randomInt(minCount, maxCount, random);
+  return pickManyUnique(DEPTH_MODULE_POOL, count, random);
+}
+
+/**
+ * 随机选取 count 个写作变体，尽量互不相同；启用的变体不足 count 个时允许重复
+ */
+export function pickDistinctVariants(
+  count: number,
+  random: RandomSource = Math.random,
+  pool: VariantPool = BUILTIN_VARIANT_POOL
+): GenerationVariant[] {
+  const picked = pool.pickDistinct(count, random);
+  while (picked.length < count) {
+    picked.push(pool.pickRandom(random));
+  }
+  return picked;
+}
+
+/**
+ * 创建写作配置；传入带种子的随机数来源时，同一种子得到同样的配置（含 nonce）
+ */
+export function createRandomGenerationStyleConfig(
+  variant?: GenerationVariant,
+  overrides: GenerationStyleOverrides = {},
+  random: RandomSource = Math.random
+): GenerationStyleConfig {
+  const baseVariant = variant ?? pickRandomVariant(random);
+  const opening = overrides.opening ?? pickOne(baseVariant.openingOptions, random);
+  const ending = overrides.ending ?? pickOne(baseVariant.endingOptions, random);
+  const depthModules = overrides.depthModules ?? pickRandomDepthModules(2, 3, random);
+  const nonce = `${random().toString(36).slice(2, 10)}_${random().toString(36).slice(2, 10)}`;
+
+  return {
+    variant: overrides.emojiDensity ? { ...baseVariant, emojiDensity: overrides.emojiDensity } : baseVariant,
+    opening,
+    ending,
+    depthModules,
+    nonce
+  };
+}
+
+/**
+ * 按显式指定的字段创建写作配置，未指定的部分随机选取
+ */
+export function createGenerationStyleConfig(
+  overrides: GenerationStyleOverrides = {},
+  random: RandomSource = Math.random,
+  pool: VariantPool = BUILTIN_VARIANT_POOL
+): GenerationStyleConfig {
+  const variant = (overrides.variantId && pool.getById(overrides.variantId)) || pool.pickRandom(random);
+  return createRandomGenerationStyleConfig(variant, overrides, random);
+}
+
+/**
+ * 为多候选生成创建写作配置，每个候选使用不同的写作变体
+ * 指定了写作变体时所有候选共用该变体，只在开头、结尾等随机部分上有所不同
+ */
+export function createDistinctGenerationStyleConfigs(
+  count: number,
+  overrides: GenerationStyleOverrides = {},
+  random: RandomSource = Math.random,
+  pool: VariantPool = BUILTIN_VARIANT_POOL
+): GenerationStyleConfig[] {
+  if (overrides.variantId) {
+    return Array.from({ length: count }, () => createGenerationStyleConfig(overrides, random, pool));
+  }
+  return pickDistinctVariants(count, random, pool).map(variant => createRandomGenerationStyleConfig(variant, overrides, random));
 }
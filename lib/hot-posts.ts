@@ -0,0 +1,136 @@
+/**
+ * 热门笔记数据获取与爆款分析
+ * 生成、系列规划和标题实验室共用：优先读取缓存，缓存失效时通过 MCP 获取并写回缓存
+ */
+
+import { ERROR_MESSAGES, CONFIG } from './constants';
+import { getCacheData, saveCacheData, getCachedAnalysis, saveAnalysisCache } from './cache-manager';
+import { fetchHotPostsViaMCP } from './mcp-client';
+import { withHotPostsRecordReplay } from './ai-recorder';
+import { CancelledError } from './error-handler';
+import { aiManager } from './ai-manager';
+import { getAnalysisPrompt, ANALYSIS_PROMPT_VERSION } from './prompts';
+import { HOT_POST_ANALYSIS_SCHEMA } from './analysis-schema';
+import type { RequestPriority } from './concurrency-limiter';
+import type { HotPostAnalysis } from './types';
+import type { UsageRecord } from './usage-tracker';
+
+// 调试日志控制
+const debugLoggingEnabled = process.env.ENABLE_DEBUG_LOGGING === 'true';
+
+// 智能数据获取函数 - 优先使用缓存，失败时降级到备用缓存
+// 请求被取消时抛出 CancelledError，不再降级继续生成
+export async function fetchHotPostsWithCache(keyword: string, signal?: AbortSignal): Promise<string | null> {
+  const scrapingEnabled = process.env.ENABLE_SCRAPING !== 'false';
+
+  // 如果爬取功能被禁用，直接返回 null，不使用任何缓存
+  if (!scrapingEnabled) {
+    if (debugLoggingEnabled) {
+      console.log(`⏭️ 爬取功能已禁用（ENABLE_SCRAPING=false），跳过所有数据获取`);
+    }
+    return null;
+  }
+
+  const cacheEnabled = process.env.ENABLE_CACHE !== 'false';
+  if (debugLoggingEnabled) {
+    console.log(`🔍 开始获取关键词"${keyword}"的热门笔记数据 (缓存: ${cacheEnabled ? '启用' : '禁用'})`);
+  }
+
+  // 1. 首先尝试读取有效缓存（如果启用）
+  const cachedData = await getCacheData(keyword);
+  if (cachedData) {
+    if (debugLoggingEnabled) {
+      console.log(`✅ 使用缓存数据: ${keyword} (${cachedData.processedNotes.length}条笔记)`);
+    }
+    return cachedData.data;
+  }
+
+  // 2. 尝试爬取新数据
+  try {
+    const scrapedData = await scrapeHotPosts(keyword, signal);
+    if (debugLoggingEnabled) {
+      console.log(`✅ 爬取成功: ${keyword}`);
+    }
+    return scrapedData;
+  } catch (scrapeError) {
+    if (scrapeError instanceof CancelledError) {
+      throw scrapeError;
+    }
+    console.warn(`⚠️ 爬取失败: ${scrapeError instanceof Error ? scrapeError.message : '未知错误'}`);
+
+    // 爬取失败：直接降级到无数据模式继续生成（避免同分类fallback导致的同质化/错配）
+    console.warn(`⚠️ 所有数据获取方式都失败，降级到无数据模式继续生成`);
+    return null;
+  }
+}
+
+// 实际的数据获取函数（通过 MCP 代理获取）
+async function scrapeHotPosts(keyword: string, signal?: AbortSignal): Promise<string> {
+  try {
+    // 录制回放模式下按关键词保存/回放 MCP 结果，回放时不访问网络
+    const { summary, notes } = await withHotPostsRecordReplay('mcp', keyword, () => fetchHotPostsViaMCP(keyword, signal), signal);
+
+    // 保存到缓存（如果启用）
+    try {
+      await saveCacheData(keyword, summary, notes, 'scraped');
+    } catch (cacheError) {
+      console.warn('保存缓存失败:', cacheError);
+    }
+
+    return summary;
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
+    console.error('通过MCP获取热门笔记失败:', error);
+    throw new Error(`${ERROR_MESSAGES.FETCH_HOT_POSTS_ERROR}: ${error instanceof Error ? error.message : '未知错误'}`);
+  }
+}
+
+/**
+ * 爆款分析的调用参数
+ */
+export interface HotPostAnalysisOptions {
+  route: string; // 发起调用的 API 路由，用于用量统计
+  remainingForAI: number;
+  priority: RequestPriority;
+  signal: AbortSignal;
+  onUsage: (record: UsageRecord) => void;
+}
+
+/**
+ * 获取爆款分析：笔记数据未变化时复用分析缓存（与 /api/analyze-hot-posts 共用），
+ * 分析失败时返回 null，由调用方在没有分析的情况下继续；请求被取消时抛出 CancelledError
+ */
+export async function getHotPostAnalysis(
+  keyword: string,
+  scrapedContent: string,
+  { route, remainingForAI, priority, signal, onUsage }: HotPostAnalysisOptions
+): Promise<HotPostAnalysis | null> {
+  const cachedAnalysis = await getCachedAnalysis<HotPostAnalysis>(keyword, scrapedContent, ANALYSIS_PROMPT_VERSION);
+  if (cachedAnalysis) {
+    return cachedAnalysis;
+  }
+
+  let safeContent = scrapedContent.replace(/```/g, '´´´').trim();
+  if (safeContent.length > CONFIG.MAX_CONTENT_LENGTH) {
+    safeContent = safeContent.substring(0, CONFIG.MAX_CONTENT_LENGTH) + '\n\n[内容因长度限制被截断...]';
+  }
+
+  try {
+    const analysis = await aiManager.analyzeWithRetry<HotPostAnalysis>(
+      getAnalysisPrompt(safeContent),
+      HOT_POST_ANALYSIS_SCHEMA,
+      remainingForAI,
+      { task: 'analysis', route, onUsage, signal, priority }
+    );
+    await saveAnalysisCache(keyword, scrapedContent, ANALYSIS_PROMPT_VERSION, analysis);
+    return analysis;
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
+    console.warn(`⚠️ 爆款分析失败，不使用分析继续: ${error instanceof Error ? error.message : '未知错误'}`);
+    return null;
+  }
+}
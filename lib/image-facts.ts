@@ -0,0 +1,114 @@
+/**
+ * 图片素材识别
+ * 把产品图、包装图交给支持图片输入的模型，只提取图上能直接看到的事实（产品名称、品牌、成分、规格等），
+ * 整理成素材文本，供用户核对修改后填入 user_info
+ */
+
+import { SchemaNode } from './analysis-schema';
+import type { ImageInput } from './ai-providers';
+
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+
+// 图片素材识别配置
+export const IMAGE_FACTS_CONFIG = {
+  // 单次请求最多识别的图片数量
+  MAX_IMAGES,
+  // 单张图片解码后的最大字节数（页面上传前会压缩，正常远小于该值）
+  MAX_IMAGE_BYTES,
+  // 请求体最大字节数：满额图片的 base64（约为原大小的 4/3）再留 64KB 给其余字段，解析 JSON 前检查
+  MAX_BODY_BYTES: MAX_IMAGES * Math.ceil(MAX_IMAGE_BYTES / 3) * 4 + 64 * 1024,
+  ALLOWED_MIME_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+} as const;
+
+/**
+ * 从图片中提取的事实，图上看不到的字段为空
+ */
+export interface ImageFacts {
+  productName: string;
+  brand: string;
+  ingredients: string[];
+  specs: string[]; // 规格参数：净含量、尺寸、型号、功率等
+  otherFacts: string[]; // 其他可见信息：功效宣称、适用人群、产地、保质期等
+}
+
+const optionalString: SchemaNode = { type: 'string' };
+const stringList: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+/**
+ * 图片事实输出 schema，对应 getImageFactsPrompt 中的 JSON 结构
+ */
+export const IMAGE_FACTS_SCHEMA: SchemaNode = {
+  type: 'object',
+  required: true,
+  fields: {
+    productName: optionalString,
+    brand: optionalString,
+    ingredients: stringList,
+    specs: stringList,
+    otherFacts: stringList,
+  },
+};
+
+export type ImageParseResult =
+  | { ok: true; image: ImageInput }
+  | { ok: false; error: string };
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/]+={0,2})$/i;
+
+/**
+ * 解析页面上传的 data URL，检查格式和大小
+ */
+export function parseImageDataUrl(value: unknown): ImageParseResult {
+  if (typeof value !== 'string') {
+    return { ok: false, error: '图片必须是 base64 data URL 字符串' };
+  }
+  const match = value.match(DATA_URL_PATTERN);
+  if (!match) {
+    return { ok: false, error: '图片必须是 base64 data URL（data:image/...;base64,...）' };
+  }
+
+  const mimeType = match[1].toLowerCase();
+  if (!(IMAGE_FACTS_CONFIG.ALLOWED_MIME_TYPES as readonly string[]).includes(mimeType)) {
+    return { ok: false, error: `不支持的图片格式: ${mimeType}，仅支持 ${IMAGE_FACTS_CONFIG.ALLOWED_MIME_TYPES.join(' / ')}` };
+  }
+
+  const data = match[2];
+  const bytes = Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+  if (bytes > IMAGE_FACTS_CONFIG.MAX_IMAGE_BYTES) {
+    return { ok: false, error: `单张图片不能超过 ${IMAGE_FACTS_CONFIG.MAX_IMAGE_BYTES / 1024 / 1024}MB` };
+  }
+
+  return { ok: true, image: { mimeType, data } };
+}
+
+// 去除首尾空白、去掉空项和重复项
+function cleanList(items: string[]): string[] {
+  return Array.from(new Set(items.map(item => item.trim()).filter(Boolean)));
+}
+
+/**
+ * 规整模型输出的事实
+ */
+export function normalizeImageFacts(facts: ImageFacts): ImageFacts {
+  return {
+    productName: facts.productName.trim(),
+    brand: facts.brand.trim(),
+    ingredients: cleanList(facts.ingredients),
+    specs: cleanList(facts.specs),
+    otherFacts: cleanList(facts.otherFacts),
+  };
+}
+
+/**
+ * 把提取的事实整理为素材文本，每类一行，没有内容的类别省略
+ */
+export function formatImageFacts(facts: ImageFacts): string {
+  const lines: string[] = [];
+  if (facts.productName) lines.push(`产品名称：${facts.productName}`);
+  if (facts.brand) lines.push(`品牌：${facts.brand}`);
+  if (facts.ingredients.length > 0) lines.push(`成分：${facts.ingredients.join('、')}`);
+  if (facts.specs.length > 0) lines.push(`规格：${facts.specs.join('；')}`);
+  if (facts.otherFacts.length > 0) lines.push(`其他信息：${facts.otherFacts.join('；')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,307 @@
+/**
+ * 关键词内容记忆
+ * 按关键词保存近期生成内容的开头、标题和 n-gram 指纹，
+ * 生成时把近期用过的开头和标题注入提示词，生成后检查新内容是否与近期内容雷同，
+ * 避免不同用户为同一关键词生成几乎相同的开头和标题
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getEnvVar } from './utils';
+import { extractTitles } from './format-validator';
+import type { GeneratedContent } from './types';
+
+function resolveKeywordMemoryDir(): string {
+  if (process.env.KEYWORD_MEMORY_DIR) {
+    return process.env.KEYWORD_MEMORY_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'keyword-memory');
+  }
+
+  return path.join(process.cwd(), 'data', 'keyword-memory');
+}
+
+function readThreshold(name: string, defaultValue: number): number {
+  const value = parseFloat(getEnvVar(name, ''));
+  return Number.isNaN(value) || value <= 0 || value > 1 ? defaultValue : value;
+}
+
+export type SimilarityAction = 'flag' | 'reject';
+
+// 关键词内容记忆配置
+export const KEYWORD_MEMORY_CONFIG = {
+  // 存储目录，所有关键词的记忆保存在同一个 JSON 文件中
+  MEMORY_DIR: resolveKeywordMemoryDir(),
+  FILE_NAME: 'memory.json',
+  // 每个关键词保留的近期内容条数，超出时删除最早的
+  MAX_ENTRIES_PER_KEYWORD: 20,
+  // 最多记录的关键词数量，超出时删除最久未更新的关键词
+  MAX_KEYWORDS: 500,
+  // 注入提示词的近期内容条数
+  PROMPT_ENTRIES: 5,
+  // 相似度达到该值（0-1）时视为雷同
+  SIMILARITY_THRESHOLD: readThreshold('SIMILARITY_THRESHOLD', 0.6),
+  // 雷同时的处理：flag 只提示，reject 丢弃结果并要求重新生成
+  SIMILARITY_ACTION: (process.env.SIMILARITY_ACTION === 'reject' ? 'reject' : 'flag') as SimilarityAction,
+  // 正文指纹：字符 n-gram 长度及保留的最小哈希个数
+  NGRAM_SIZE: 3,
+  FINGERPRINT_SIZE: 128,
+  // 开头句截取的最大字数
+  MAX_OPENING_LENGTH: 40,
+} as const;
+
+/**
+ * 检查是否启用关键词内容记忆，默认启用
+ */
+export function isKeywordMemoryEnabled(): boolean {
+  return process.env.ENABLE_KEYWORD_MEMORY !== 'false';
+}
+
+/**
+ * 一条近期生成记录
+ */
+export interface KeywordMemoryEntry {
+  opening: string; // 正文第一句
+  titles: string[];
+  fingerprint: number[]; // 正文字符 n-gram 哈希中最小的若干个，升序
+  createdAt: number;
+}
+
+/**
+ * 注入提示词的近期开头和标题
+ */
+export interface RecentOutputs {
+  openings: string[];
+  titles: string[];
+}
+
+/**
+ * 与近期内容的相似度检查结果，各项相似度为 0-1，score 取三项最大值
+ */
+export interface SimilarityCheck {
+  passed: boolean;
+  score: number;
+  threshold: number;
+  action: SimilarityAction;
+  opening: number;
+  titles: number;
+  body: number;
+  // 最相似的一条近期内容，没有近期内容时为 null
+  similarTo: { opening: string; titles: string[]; createdAt: number } | null;
+}
+
+interface MemoryStore {
+  keywords: Record<string, { entries: KeywordMemoryEntry[]; updatedAt: number }>;
+}
+
+// 关键词按去首尾空白、小写、合并空白后归并
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// 只保留汉字、字母和数字，忽略标点、emoji 和空白带来的差异
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\u4e00-\u9fa5a-z0-9]/g, '');
+}
+
+function getNgrams(text: string, size: number): Set<string> {
+  const chars = Array.from(normalizeText(text));
+  const ngrams = new Set<string>();
+  if (chars.length > 0 && chars.length < size) {
+    ngrams.add(chars.join(''));
+  }
+  for (let i = 0; i + size <= chars.length; i++) {
+    ngrams.add(chars.slice(i, i + size).join(''));
+  }
+  return ngrams;
+}
+
+// FNV-1a 32 位哈希
+function hashNgram(ngram: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < ngram.length; i++) {
+    hash ^= ngram.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * 正文第一句，超长时截断
+ */
+export function extractOpening(body: string): string {
+  const first = body.trim().split(/[。！？!?\n]/).map(item => item.trim()).find(Boolean) || '';
+  return Array.from(first).slice(0, KEYWORD_MEMORY_CONFIG.MAX_OPENING_LENGTH).join('');
+}
+
+/**
+ * 正文指纹：字符 n-gram 哈希中最小的 FINGERPRINT_SIZE 个（bottom-k 采样），长文也只占固定大小
+ */
+export function createFingerprint(body: string): number[] {
+  const hashes = Array.from(getNgrams(body, KEYWORD_MEMORY_CONFIG.NGRAM_SIZE)).map(hashNgram);
+  return Array.from(new Set(hashes)).sort((a, b) => a - b).slice(0, KEYWORD_MEMORY_CONFIG.FINGERPRINT_SIZE);
+}
+
+/**
+ * 由两个指纹估算正文 n-gram 集合的 Jaccard 相似度
+ */
+export function compareFingerprints(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = Array.from(new Set(a.concat(b))).sort((x, y) => x - y).slice(0, KEYWORD_MEMORY_CONFIG.FINGERPRINT_SIZE);
+  const shared = union.filter(hash => setA.has(hash) && setB.has(hash)).length;
+  return shared / union.length;
+}
+
+// 标题两两比较取最大值，用字符二元组比较短文本
+function compareTitles(a: string[], b: string[]): number {
+  let max = 0;
+  for (const titleA of a) {
+    const ngramsA = getNgrams(titleA, 2);
+    for (const titleB of b) {
+      max = Math.max(max, jaccard(ngramsA, getNgrams(titleB, 2)));
+    }
+  }
+  return max;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 由生成结果创建记忆条目
+ */
+export function createMemoryEntry(content: GeneratedContent): KeywordMemoryEntry {
+  return {
+    opening: extractOpening(content.body),
+    titles: extractTitles(content.titles),
+    fingerprint: createFingerprint(content.body),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * 检查新内容与近期内容的相似度：开头句、标题、正文指纹分别比较，任一项达到阈值即视为雷同
+ */
+export function checkSimilarity(content: GeneratedContent, entries: KeywordMemoryEntry[]): SimilarityCheck {
+  const current = createMemoryEntry(content);
+  const openingNgrams = getNgrams(current.opening, 2);
+
+  let best: { entry: KeywordMemoryEntry; opening: number; titles: number; body: number; score: number } | null = null;
+  for (const entry of entries) {
+    const opening = jaccard(openingNgrams, getNgrams(entry.opening, 2));
+    const titles = compareTitles(current.titles, entry.titles);
+    const body = compareFingerprints(current.fingerprint, entry.fingerprint);
+    const score = Math.max(opening, titles, body);
+    if (!best || score > best.score) {
+      best = { entry, opening, titles, body, score };
+    }
+  }
+
+  const { SIMILARITY_THRESHOLD: threshold, SIMILARITY_ACTION: action } = KEYWORD_MEMORY_CONFIG;
+  if (!best) {
+    return { passed: true, score: 0, threshold, action, opening: 0, titles: 0, body: 0, similarTo: null };
+  }
+  return {
+    passed: best.score < threshold,
+    score: roundScore(best.score),
+    threshold,
+    action,
+    opening: roundScore(best.opening),
+    titles: roundScore(best.titles),
+    body: roundScore(best.body),
+    similarTo: { opening: best.entry.opening, titles: best.entry.titles, createdAt: best.entry.createdAt },
+  };
+}
+
+/**
+ * 取最近几条记录中用过的开头和标题，用于提示词；没有记录时返回 null
+ */
+export function getRecentOutputs(entries: KeywordMemoryEntry[]): RecentOutputs | null {
+  const recent = entries.slice(-KEYWORD_MEMORY_CONFIG.PROMPT_ENTRIES).reverse();
+  if (recent.length === 0) {
+    return null;
+  }
+  return {
+    openings: Array.from(new Set(recent.map(entry => entry.opening).filter(Boolean))),
+    titles: Array.from(new Set(recent.flatMap(entry => entry.titles))),
+  };
+}
+
+function getStoreFilePath(): string {
+  return path.join(KEYWORD_MEMORY_CONFIG.MEMORY_DIR, KEYWORD_MEMORY_CONFIG.FILE_NAME);
+}
+
+async function readStore(): Promise<MemoryStore> {
+  try {
+    const content = await fs.readFile(getStoreFilePath(), 'utf-8');
+    const data = JSON.parse(content);
+    return { keywords: data.keywords && typeof data.keywords === 'object' ? data.keywords : {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('读取关键词内容记忆失败:', error);
+    }
+    return { keywords: {} };
+  }
+}
+
+async function writeStore(store: MemoryStore): Promise<void> {
+  await fs.mkdir(KEYWORD_MEMORY_CONFIG.MEMORY_DIR, { recursive: true });
+  await fs.writeFile(getStoreFilePath(), JSON.stringify(store), 'utf-8');
+}
+
+// 串行执行写操作，避免并发请求读到旧数据后互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeChain.then(operation, operation);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * 获取关键词的近期记录，按时间从早到晚
+ */
+export async function getKeywordMemory(keyword: string): Promise<KeywordMemoryEntry[]> {
+  const store = await readStore();
+  return store.keywords[normalizeKeyword(keyword)]?.entries || [];
+}
+
+/**
+ * 记录一批新生成的内容，超出条数上限时删除最早的记录
+ */
+export function recordKeywordOutputs(keyword: string, contents: GeneratedContent[]): Promise<void> {
+  return withStoreLock(async () => {
+    const store = await readStore();
+    const key = normalizeKeyword(keyword);
+    const entries = (store.keywords[key]?.entries || []).concat(contents.map(createMemoryEntry));
+    store.keywords[key] = {
+      entries: entries.slice(-KEYWORD_MEMORY_CONFIG.MAX_ENTRIES_PER_KEYWORD),
+      updatedAt: Date.now(),
+    };
+
+    const keys = Object.keys(store.keywords);
+    if (keys.length > KEYWORD_MEMORY_CONFIG.MAX_KEYWORDS) {
+      keys
+        .sort((a, b) => store.keywords[a].updatedAt - store.keywords[b].updatedAt)
+        .slice(0, keys.length - KEYWORD_MEMORY_CONFIG.MAX_KEYWORDS)
+        .forEach(item => { delete store.keywords[item]; });
+    }
+
+    await writeStore(store);
+  });
+}
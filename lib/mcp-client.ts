@@ -5,6 +5,7 @@
 
 import { ProcessedNote } from './types';
 import { CONFIG } from './constants';
+import { CancelledError, throwIfCancelled } from './error-handler';
 
 // MCP配置（优化版 - 适配 Vercel 180s 限制）
 const MCP_CONFIG = {
@@ -24,6 +25,24 @@ const MCP_CONFIG = {
   RETRY_DELAY: 500,
 };
 
+/**
+ * 创建带超时的中止控制器，并关联调用方的取消信号
+ * 调用方取消时立即中止当前请求，cleanup 负责清理计时器和监听
+ */
+function createRequestController(timeout: number, signal?: AbortSignal): { controller: AbortController; cleanup: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  return {
+    controller,
+    cleanup: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
 // MCP JSON-RPC 请求接口
 interface MCPRequest {
   jsonrpc: '2.0';
@@ -83,7 +102,7 @@ class MCPClient {
   /**
    * 健康检查：测试指定MCP服务是否可达
    */
-  private async healthCheck(url: string): Promise<boolean> {
+  private async healthCheck(url: string, signal?: AbortSignal): Promise<boolean> {
     const now = Date.now();
     const cached = this.urlHealthStatus.get(url);
 
@@ -92,11 +111,11 @@ class MCPClient {
       return cached.isHealthy;
     }
 
-    try {
-      console.log(`🏥 执行MCP健康检查: ${url}`);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), MCP_CONFIG.HEALTH_CHECK_TIMEOUT); // 使用配置的超时时间
+    console.log(`🏥 执行MCP健康检查: ${url}`);
+    throwIfCancelled(signal);
+    const { controller, cleanup } = createRequestController(MCP_CONFIG.HEALTH_CHECK_TIMEOUT, signal); // 使用配置的超时时间
 
+    try {
       const response = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -108,30 +127,35 @@ class MCPClient {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
       const isHealthy = response.ok || response.status < 500;
       this.urlHealthStatus.set(url, { isHealthy, lastCheck: now });
 
       console.log(`✅ MCP健康检查完成 [${url}]: ${isHealthy ? '健康' : '不健康'}`);
       return isHealthy;
     } catch (error) {
+      // 调用方取消不代表服务不健康，不更新健康状态
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
       console.warn(`⚠️ MCP健康检查失败 [${url}]:`, error instanceof Error ? error.message : '未知错误');
       this.urlHealthStatus.set(url, { isHealthy: false, lastCheck: now });
       return false;
+    } finally {
+      cleanup();
     }
   }
 
   /**
    * 检查所有URL的健康状态，返回第一个健康的URL索引
    */
-  private async findHealthyUrl(): Promise<number | null> {
+  private async findHealthyUrl(signal?: AbortSignal): Promise<number | null> {
     console.log(`🔍 检查 ${MCP_CONFIG.URLS.length} 个MCP服务地址的健康状态...`);
 
     // 从当前索引开始检查
     for (let i = 0; i < MCP_CONFIG.URLS.length; i++) {
       const index = (this.currentUrlIndex + i) % MCP_CONFIG.URLS.length;
       const url = MCP_CONFIG.URLS[index];
-      const isHealthy = await this.healthCheck(url);
+      const isHealthy = await this.healthCheck(url, signal);
 
       if (isHealthy) {
         if (index !== this.currentUrlIndex) {
@@ -150,7 +174,7 @@ class MCPClient {
   /**
    * 初始化MCP会话并获取Session ID
    */
-  private async initialize(): Promise<string> {
+  private async initialize(signal?: AbortSignal): Promise<string> {
     const currentUrl = this.getCurrentUrl();
     console.log(`🔄 开始初始化MCP会话 [${this.currentUrlIndex + 1}/${MCP_CONFIG.URLS.length}]: ${currentUrl}`);
 
@@ -168,10 +192,8 @@ class MCPClient {
       },
     };
 
+    const { controller, cleanup } = createRequestController(MCP_CONFIG.TIMEOUT, signal);
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), MCP_CONFIG.TIMEOUT);
-
       console.log(`📡 发送初始化请求到: ${currentUrl}`);
       const response = await fetch(currentUrl, {
         method: 'POST',
@@ -182,7 +204,7 @@ class MCPClient {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      cleanup();
 
       if (!response.ok) {
         throw new Error(`MCP初始化失败: HTTP ${response.status}`);
@@ -204,7 +226,7 @@ class MCPClient {
 
       // 发送initialized通知
       console.log('📨 发送initialized通知...');
-      await this.sendNotification('notifications/initialized', sessionId);
+      await this.sendNotification('notifications/initialized', sessionId, undefined, signal);
 
       // 等待一小段时间确保服务器处理完初始化
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -212,6 +234,10 @@ class MCPClient {
       console.log(`✅ MCP会话初始化成功 [${currentUrl}]`);
       return sessionId;
     } catch (error) {
+      cleanup();
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
       console.error(`❌ MCP初始化失败 [${currentUrl}]:`, error);
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('MCP初始化超时');
@@ -223,7 +249,12 @@ class MCPClient {
   /**
    * 发送MCP通知（带超时控制）
    */
-  private async sendNotification(method: string, sessionId: string, params?: Record<string, unknown>): Promise<void> {
+  private async sendNotification(
+    method: string,
+    sessionId: string,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<void> {
     const notification = {
       jsonrpc: '2.0',
       method,
@@ -231,9 +262,8 @@ class MCPClient {
     };
 
     const currentUrl = this.getCurrentUrl();
-    const controller = new AbortController();
     // 通知超时设置为健康检查超时的 2 倍，因为通知通常很快
-    const timeoutId = setTimeout(() => controller.abort(), MCP_CONFIG.HEALTH_CHECK_TIMEOUT * 2);
+    const { controller, cleanup } = createRequestController(MCP_CONFIG.HEALTH_CHECK_TIMEOUT * 2, signal);
 
     try {
       const response = await fetch(currentUrl, {
@@ -250,28 +280,38 @@ class MCPClient {
         throw new Error(`MCP通知发送失败: HTTP ${response.status}`);
       }
     } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('MCP通知发送超时');
       }
       throw error;
     } finally {
-      clearTimeout(timeoutId);
+      cleanup();
     }
   }
 
   /**
    * 调用MCP工具（带URL轮询和重试）
+   * 传入 signal 时，调用方取消会立即中止当前请求并停止重试和切换地址
    */
-  private async callTool<T = unknown>(toolName: string, args: Record<string, unknown> = {}): Promise<T> {
+  private async callTool<T = unknown>(
+    toolName: string,
+    args: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<T> {
     // 遍历所有URL
     for (let urlAttempt = 0; urlAttempt < MCP_CONFIG.URLS.length; urlAttempt++) {
       const currentUrl = this.getCurrentUrl();
 
       // 对每个URL进行重试
       for (let attempt = 0; attempt < MCP_CONFIG.MAX_RETRIES_PER_URL; attempt++) {
+        throwIfCancelled(signal);
+
         try {
           if (!this.sessionId) {
-            this.sessionId = await this.initialize();
+            this.sessionId = await this.initialize(signal);
           }
 
           const request: MCPRequest = {
@@ -284,8 +324,7 @@ class MCPClient {
             },
           };
 
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), MCP_CONFIG.TIMEOUT);
+          const { controller, cleanup } = createRequestController(MCP_CONFIG.TIMEOUT, signal);
 
           const response = await fetch(currentUrl, {
             method: 'POST',
@@ -295,9 +334,7 @@ class MCPClient {
             },
             body: JSON.stringify(request),
             signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
+          }).finally(cleanup);
 
           if (!response.ok) {
             throw new Error(`MCP请求失败: HTTP ${response.status}`);
@@ -323,6 +360,11 @@ class MCPClient {
           // 成功返回结果
           return data.result;
         } catch (error) {
+          if (signal?.aborted) {
+            console.log(`🛑 MCP工具调用已取消 [${currentUrl}]`);
+            throw new CancelledError();
+          }
+
           const errorMessage = error instanceof Error ? error.message : '未知错误';
           console.warn(`⚠️ MCP工具调用失败 [${currentUrl}] (尝试 ${attempt + 1}/${MCP_CONFIG.MAX_RETRIES_PER_URL}): ${errorMessage}`);
 
@@ -359,12 +401,12 @@ class MCPClient {
   /**
    * 搜索小红书内容（带健康检查和自动切换）
    */
-  async searchFeeds(keyword: string): Promise<ProcessedNote[]> {
+  async searchFeeds(keyword: string, signal?: AbortSignal): Promise<ProcessedNote[]> {
     console.log(`🔍 通过MCP搜索关键词: ${keyword}`);
     console.log(`📋 可用MCP服务地址: ${MCP_CONFIG.URLS.length} 个`);
 
     // 先进行健康检查，找到可用的URL
-    const healthyUrlIndex = await this.findHealthyUrl();
+    const healthyUrlIndex = await this.findHealthyUrl(signal);
     if (healthyUrlIndex === null) {
       throw new Error('MCP服务不可用，所有地址都无法连接，请检查服务状态或配置');
     }
@@ -376,11 +418,14 @@ class MCPClient {
           type: string;
           text?: string;
         }>;
-      }>('search_feeds', { keyword });
+      }>('search_feeds', { keyword }, signal);
 
       // 解析数据
       return await this.parseSearchResult(result);
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : '未知错误';
       console.error(`❌ MCP搜索失败: ${errorMessage}`);
       throw error;
@@ -490,8 +535,9 @@ export const mcpClient = new MCPClient();
 
 /**
  * 使用MCP获取小红书热门笔记数据（支持多地址轮询）
+ * @param signal 调用方取消信号，取消后抛出 CancelledError
  */
-export async function fetchHotPostsViaMCP(keyword: string): Promise<{
+export async function fetchHotPostsViaMCP(keyword: string, signal?: AbortSignal): Promise<{
   summary: string;
   notes: ProcessedNote[]
 }> {
@@ -506,7 +552,7 @@ export async function fetchHotPostsViaMCP(keyword: string): Promise<{
       console.warn(`⚠️ 检测到 ${unhealthyUrls.length} 个不健康的MCP服务，将自动切换到可用服务`);
     }
 
-    const notes = await mcpClient.searchFeeds(keyword);
+    const notes = await mcpClient.searchFeeds(keyword, signal);
 
     if (notes.length === 0) {
       throw new Error('未获取到任何笔记数据');
@@ -524,6 +570,9 @@ export async function fetchHotPostsViaMCP(keyword: string): Promise<{
     console.log(`✅ 成功通过MCP获取 ${notes.length} 条笔记数据 [使用: ${healthStatus.currentUrl}]`);
     return { summary, notes };
   } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
     const errorMessage = error instanceof Error ? error.message : '未知错误';
     console.error('❌ MCP获取数据失败:', errorMessage);
 
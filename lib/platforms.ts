@@ -0,0 +1,126 @@
+/**
+ * 多平台输出
+ * 同一份素材可按平台生成小红书笔记、抖音作品文案、微博或公众号长文。
+ * 各平台沿用相同的分段结构（标题、正文、标签、封面文案、首评、发布策略），
+ * 按平台各自的字数、标签和格式规则生成与校验；提示词文本见 prompts.ts
+ */
+
+export const PLATFORM_IDS = ['xiaohongshu', 'douyin', 'weibo', 'wechat'] as const;
+
+export type PlatformId = typeof PLATFORM_IDS[number];
+
+export const DEFAULT_PLATFORM: PlatformId = 'xiaohongshu';
+
+/**
+ * 标签写法：hashtag 为 "#标签"，topic 为微博话题 "#话题#"
+ */
+export type TagStyle = 'hashtag' | 'topic';
+
+/**
+ * 平台格式规则，标题字数按 emoji 计 2 字统计，正文字数不计空白
+ */
+export interface PlatformFormat {
+  titleCount: number;
+  maxTitleLength: number;
+  minBodyLength: number;
+  maxBodyLength: number;
+  minTags: number;
+  maxTags: number;
+  tagStyle: TagStyle;
+  tagsInBody: boolean; // 正文中是否允许出现标签
+  trailingQuestion: boolean; // 正文结尾是否允许互动问句
+  minSubheadings: number; // 正文至少需要的小标题数，0 表示不要求
+}
+
+export interface PlatformProfile {
+  id: PlatformId;
+  label: string;
+  contentName: string; // 生成内容的称呼，如"笔记"、"公众号文章"
+  format: PlatformFormat;
+}
+
+export const PLATFORM_PROFILES: Record<PlatformId, PlatformProfile> = {
+  xiaohongshu: {
+    id: 'xiaohongshu',
+    label: '小红书',
+    contentName: '笔记',
+    format: {
+      titleCount: 3,
+      maxTitleLength: 20,
+      minBodyLength: 50,
+      maxBodyLength: 750,
+      minTags: 10,
+      maxTags: 15,
+      tagStyle: 'hashtag',
+      tagsInBody: false,
+      trailingQuestion: false,
+      minSubheadings: 0,
+    },
+  },
+  douyin: {
+    id: 'douyin',
+    label: '抖音',
+    contentName: '抖音作品文案',
+    format: {
+      titleCount: 3,
+      maxTitleLength: 30,
+      minBodyLength: 30,
+      maxBodyLength: 300,
+      minTags: 3,
+      maxTags: 5,
+      tagStyle: 'hashtag',
+      tagsInBody: false,
+      trailingQuestion: true,
+      minSubheadings: 0,
+    },
+  },
+  weibo: {
+    id: 'weibo',
+    label: '微博',
+    contentName: '微博',
+    format: {
+      titleCount: 3,
+      maxTitleLength: 30,
+      minBodyLength: 50,
+      maxBodyLength: 2000,
+      minTags: 1,
+      maxTags: 3,
+      tagStyle: 'topic',
+      tagsInBody: true,
+      trailingQuestion: true,
+      minSubheadings: 0,
+    },
+  },
+  wechat: {
+    id: 'wechat',
+    label: '公众号',
+    contentName: '公众号文章',
+    format: {
+      titleCount: 3,
+      maxTitleLength: 64,
+      minBodyLength: 1000,
+      maxBodyLength: 4000,
+      minTags: 3,
+      maxTags: 5,
+      tagStyle: 'hashtag',
+      tagsInBody: false,
+      trailingQuestion: true,
+      minSubheadings: 3,
+    },
+  },
+};
+
+export function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === 'string' && (PLATFORM_IDS as readonly string[]).includes(value);
+}
+
+export function getPlatformProfile(platform: PlatformId = DEFAULT_PLATFORM): PlatformProfile {
+  return PLATFORM_PROFILES[platform];
+}
+
+/**
+ * 按平台的标签写法输出单个标签
+ */
+export function formatTag(tag: string, platform: PlatformId = DEFAULT_PLATFORM): string {
+  return PLATFORM_PROFILES[platform].format.tagStyle === 'topic' ? `#${tag}#` : `#${tag}`;
+}
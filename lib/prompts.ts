@@ -3,7 +3,14 @@
  * 简化提示词,依赖模型自身能力,只保留格式要求
  */
 
-import type { GenerationStyleConfig } from './generation-variants';
+import type { GenerationStyleConfig, GenerationVariant } from './generation-variants';
+import type { BrandVoiceProfile } from './brand-voice';
+import type { SeriesBriefContext } from './series-planner';
+import type { RecentOutputs } from './keyword-memory';
+import type { HotPostAnalysis } from './types';
+import type { FormatViolation } from './format-validator';
+import { SECTION_HEADINGS, type RegenerableSection } from './content-parser';
+import { DEFAULT_PLATFORM, PLATFORM_PROFILES, type PlatformId } from './platforms';
 
 /**
  * 转义可能破坏提示词结构的特殊字符
@@ -17,6 +24,12 @@ function escapePromptContent(content: string): string {
     .replace(/```/g, '\\`\\`\\`');
 }
 
+/**
+ * 分析提示词版本，参与分析结果缓存的哈希计算
+ * 修改分析提示词或输出结构时需要同步递增，使旧的分析缓存失效
+ */
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v3.0';
+
 /**
  * 生成小红书热门笔记分析提示词
  */
@@ -82,15 +95,77 @@ ${safeContent}
 };
 
 /**
- * 生成小红书文案创作提示词
+ * 生成结构化输出的修复提示词
+ * 把上一次输出和具体的校验错误回传给模型，要求只修正问题后重新输出完整JSON
  */
-export const getGenerationPrompt = (
-  hotPostRules: string,
-  userInfo: string,
-  keyword: string,
-  styleConfig: GenerationStyleConfig
+export const getJsonRepairPrompt = (
+  originalPrompt: string,
+  previousOutput: string,
+  errors: string[]
 ): string => {
-  const { variant, opening, ending, depthModules, nonce } = styleConfig;
+  const errorText = errors.map(e => `- ${e}`).join('\n');
+  return `${originalPrompt}
+
+**你上一次的输出:**
+${escapePromptContent(previousOutput.substring(0, 6000))}
+
+**上一次输出未通过校验,问题如下:**
+${errorText}
+
+**修复要求:**
+- 只修正上述问题,其余内容保持不变
+- 数组字段必须输出JSON数组,非空数组至少包含1项
+- 重新输出完整JSON,不要任何额外文字`;
+};
+
+/**
+ * 生成流式续写提示词
+ * 流式生成中途断开时使用，让模型从已输出内容的断点继续，而不是从头重写
+ */
+export const getContinuationPrompt = (originalPrompt: string, partialOutput: string): string => {
+  return `${originalPrompt}
+
+**你之前的输出在中途被打断,已输出的内容如下(位于两条分隔线之间):**
+-----
+${partialOutput.replace(/```/g, '´´´')}
+-----
+
+**续写要求:**
+- 从上面内容的最后一个字之后直接接着写,不要重复任何已输出的内容
+- 不要重新开始,不要输出任何说明或过渡语
+- 保持原有的格式、结构和语气,把剩余部分写完整`;
+};
+
+/**
+ * 写作风格要求，创作和改写共用
+ */
+const WRITING_STYLE_RULES = `**写作风格:**
+- 用口语化表达,避免书面语
+- 多用短句、emoji
+- 加入真实细节和情绪
+- 避免:首先、其次、总之等模板词
+- 避免这些高频开头套话: 今天来分享、给大家安利、姐妹们听我说、宝子们
+- 标题与正文都要尽量避免”同一套句式重复”,多换表达方式
+- ❌ 严禁在正文结尾追加任何互动问句、引导提问或收尾寒暄（如”你们觉得呢？””你平时怎么吃？””想看我展开哪一段？”）,正文写完就结束,不要画蛇添足`;
+
+/**
+ * 格式禁令，创作和改写共用
+ */
+const FORMAT_RULES = `**格式禁令（严格执行）:**
+- ❌ 禁止使用 Markdown 语法
+- ❌ 禁止使用任何星号标记：**加粗**、*斜体*
+- ❌ 禁止使用方括号标记：[文本]、[链接]
+- ❌ 禁止使用任何格式化符号：* [ ] ( )
+- ❌ 避免绝对化词语：最、第一、唯一、100%、保证等
+- ✅ 仅输出纯文本内容，不带任何格式标记
+- ✅ 如需强调，用"真的"、"超级"等口语化词汇
+- ✅ 用"很"、"非常"、"特别"代替绝对化表达`;
+
+/**
+ * 本次写作配置说明，创作和改写共用
+ */
+const buildStyleConfigText = (styleConfig: GenerationStyleConfig): string => {
+  const { variant, opening, depthModules, nonce } = styleConfig;
 
   const depthText = depthModules.map(m => `- ${m}`).join('\n');
   const structureText = variant.structure.map(s => `- ${s}`).join('\n');
@@ -103,9 +178,7 @@ export const getGenerationPrompt = (
         ? '正文建议 2-6 个，标题可偶尔点缀；不要堆表情。'
         : '正文建议 0-2 个，少量点缀即可。';
 
-  return `你是小红书爆款博主,基于用户素材创作一篇高质量笔记。
-
-**本次写作配置(仅用于控制风格,禁止在输出中提及):**
+  return `**本次写作配置(仅用于控制风格,禁止在输出中提及):**
 - 角度: ${variant.angle}
 - 人设: ${variant.persona}
 - 开头方式: ${opening}
@@ -116,45 +189,103 @@ ${styleRulesText}
 - 深度加强(能从素材里找到就写,找不到就不写):
 ${depthText}
 - emoji密度: ${variant.emojiDensity} (${emojiHint})
-- 随机扰动码: ${nonce} (严禁输出)
+- 随机扰动码: ${nonce} (严禁输出)`;
+};
 
-**爆款规律(内化后使用,不要输出):**
-${hotPostRules}
+const BRAND_EMOJI_RULES: Record<BrandVoiceProfile['emojiPolicy'], string> = {
+  auto: '',
+  none: '全文(含标题)不使用任何emoji',
+  low: '正文最多 2 个emoji,标题不用',
+  medium: '正文 2-6 个emoji,标题可偶尔点缀',
+  high: '正文 4-10 个emoji,标题每个 0-1 个',
+};
 
-**用户素材:**
-${userInfo}
+/**
+ * 品牌口吻约束，优先级高于写作配置
+ */
+const buildBrandVoiceText = (brandVoice?: BrandVoiceProfile | null): string => {
+  if (!brandVoice) return '';
 
-**关键词:** ${keyword}
+  const rules = [
+    brandVoice.selfReference && `- 自称: 统一用"${brandVoice.selfReference}"指代自己`,
+    brandVoice.signaturePhrases.length > 0 &&
+      `- 标志性表达(至少自然地用上一句,不要生硬堆砌): ${brandVoice.signaturePhrases.map(p => `"${p}"`).join('、')}`,
+    brandVoice.forbiddenWords.length > 0 &&
+      `- 禁用词(任何部分都不能出现): ${brandVoice.forbiddenWords.join('、')}`,
+    ...brandVoice.productNames.map(product => product.aliases.length > 0
+      ? `- 产品名称统一写作"${product.name}",不要写成 ${product.aliases.map(a => `"${a}"`).join('、')}`
+      : `- 产品名称统一写作"${product.name}"`),
+    BRAND_EMOJI_RULES[brandVoice.emojiPolicy] && `- emoji: ${BRAND_EMOJI_RULES[brandVoice.emojiPolicy]}`,
+    brandVoice.notes && `- 其他要求: ${brandVoice.notes}`,
+  ].filter(Boolean);
 
-**核心要求:**
-1. 内容必须基于用户素材,不要编造
-2. 语言自然口语化,避免AI味
-3. 标题≤20字
-4. 正文50-750字
-5. 标签10-15个
+  if (rules.length === 0) return '';
 
-**写作风格:**
-- 用口语化表达,避免书面语
-- 多用短句、emoji
-- 加入真实细节和情绪
-- 避免:首先、其次、总之等模板词
-- 避免这些高频开头套话: 今天来分享、给大家安利、姐妹们听我说、宝子们
-- 标题与正文都要尽量避免”同一套句式重复”,多换表达方式
-- ❌ 严禁在正文结尾追加任何互动问句、引导提问或收尾寒暄（如”你们觉得呢？””你平时怎么吃？””想看我展开哪一段？”）,正文写完就结束,不要画蛇添足
+  return `
 
-**格式禁令（严格执行）:**
-- ❌ 禁止使用 Markdown 语法
-- ❌ 禁止使用任何星号标记：**加粗**、*斜体*
-- ❌ 禁止使用方括号标记：[文本]、[链接]
-- ❌ 禁止使用任何格式化符号：* [ ] ( )
-- ❌ 避免绝对化词语：最、第一、唯一、100%、保证等
-- ✅ 仅输出纯文本内容，不带任何格式标记
-- ✅ 如需强调，用"真的"、"超级"等口语化词汇
-- ✅ 用"很"、"非常"、"特别"代替绝对化表达
+**品牌口吻(${brandVoice.name},必须遵守,与写作配置冲突时以此为准,禁止在输出中提及):**
+${rules.join('\n')}`;
+};
 
-**直接输出以下格式,不要任何前导文字:**
+/**
+ * 系列中本篇的定位，以及需要避开的其他篇角度和已生成标题
+ */
+const buildSeriesBriefText = (series?: SeriesBriefContext | null): string => {
+  if (!series) return '';
+
+  const { brief, otherBriefs, total } = series;
+  const otherAngles = otherBriefs.map(item => `  - 第${item.index + 1}篇: ${item.angle}`).join('\n');
+  const generatedTitles = otherBriefs.flatMap(item => item.generatedTitles).map(titles => titles.trim()).filter(Boolean);
+
+  return `
+
+**系列规划(本篇是同一主题 ${total} 篇系列中的第 ${brief.index + 1} 篇,禁止在输出中提及):**
+- 本篇角度: ${brief.angle}
+- 标题方向: ${brief.titleDirection}
+- 重点使用的素材信息: ${brief.keyFacts.join('、')}
+- 系列其他篇的角度(本篇不要重复这些角度,也不要把它们的重点当作本篇重点):
+${otherAngles}${generatedTitles.length > 0 ? `
+- 系列中已生成的标题(不要使用相同或相似的句式):
+${generatedTitles.join('\n')}` : ''}`;
+};
+
+/**
+ * 同一关键词近期已生成内容用过的开头和标题，避免不同请求得到雷同的内容
+ */
+const buildRecentOutputsText = (recentOutputs?: RecentOutputs | null): string => {
+  if (!recentOutputs) return '';
+
+  const sections = [
+    recentOutputs.openings.length > 0 ? `- 开头:\n${recentOutputs.openings.map(item => `  - ${item}`).join('\n')}` : '',
+    recentOutputs.titles.length > 0 ? `- 标题:\n${recentOutputs.titles.map(item => `  - ${item}`).join('\n')}` : '',
+  ].filter(Boolean);
+  if (sections.length === 0) return '';
 
-## 1. 爆款标题创作(3个)
+  return `
+
+**近期同主题已用过的开头和标题(本篇的开头和标题不要使用相同或相似的句式和切入点,禁止在输出中提及):**
+${sections.join('\n')}`;
+};
+
+/**
+ * 各平台的提示词：人设、核心要求中的平台规则、写作风格、输出格式，以及单独重写各分段时的要求
+ * 数值与 platforms.ts 中的平台格式规则保持一致；各平台沿用相同的分段标题，便于统一解析
+ * （增长 Playbook 的指标按平台给出，小红书以外的平台标题不带平台名，统一为"## 7. 增长 Playbook"）
+ */
+interface PlatformPrompt {
+  persona: string;
+  requirements: string[];
+  styleRules: string;
+  outputFormat: string;
+  sectionRules: Record<RegenerableSection, string>;
+}
+
+const PLATFORM_PROMPTS: Record<PlatformId, PlatformPrompt> = {
+  xiaohongshu: {
+    persona: '小红书爆款博主',
+    requirements: ['标题≤20字', '正文50-750字', '标签10-15个'],
+    styleRules: WRITING_STYLE_RULES,
+    outputFormat: `## 1. 爆款标题创作(3个)
 (每个标题≤20字,emoji计2字)
 - 标题1:
 - 标题2:
@@ -200,5 +331,441 @@ ${userInfo}
   - 点击率 > 10%?
   - 互动率 > 3%?
   - 赞藏比健康?
-`;
+`,
+    sectionRules: {
+      titles: '输出3个标题,每个标题≤20字(emoji计2字),格式为"- 标题1:"。换用与原标题不同的句式和切入点',
+      body: '基于用户素材重写正文,自然口语化,包含真实细节,50-750字。正文中禁止出现任何 #标签,禁止使用星号、方括号等格式符号,结尾不要追加互动问句',
+      tags: '输出10-15个标签,格式为"#标签1 #标签2",按核心词+长尾词+场景词+人群词组合,只保留与素材和正文强相关的项,严格去重',
+      imagePrompt: '严格基于正文提炼核心卖点,输出一句10-15字的小红书封面文案,关键词前置,可酌情使用符号和情绪词,只输出文案本身',
+      selfComment: '以发布者身份写一条首评,补充正文中未说明的关键信息,引导互动',
+      strategy: '给出发布策略建议,包括最佳发布时间段',
+    },
+  },
+  douyin: {
+    persona: '抖音爆款创作者',
+    requirements: ['标题≤30字', '作品文案30-300字', '话题3-5个'],
+    styleRules: `**写作风格:**
+- 像对着镜头说话一样口语化,第一句话就抛出钩子
+- 短句为主,节奏快,每句都推进信息
+- 加入真实细节和情绪
+- 避免:首先、其次、总之等模板词
+- 避免这些高频开头套话: 今天来分享、给大家安利、家人们`,
+    outputFormat: `## 1. 爆款标题创作(3个)
+(抖音作品标题,每个标题≤30字,emoji计2字,前几个字就要抓住注意力)
+- 标题1:
+- 标题2:
+- 标题3:
+
+## 2. 正文内容
+(抖音作品描述,基于用户素材,30-300字,开头一句话给出钩子,可以用一句提问引导评论。**重要:正文中禁止出现任何话题,不要用 #话题 格式,话题统一放在下一部分**)
+
+## 3. 关键词标签(3-5个)
+(抖音话题,格式为"#话题1 #话题2":
+- 1-2个与主题相关的大流量话题,其余为与内容强相关的垂直话题
+- 严格去重,不要堆砌无关热门话题)
+
+## 4. AI绘画提示词
+(视频封面大字文案,8-12字,关键词前置,可酌情使用符号和情绪词,只输出文案本身)
+
+## 5. 首评关键词引导
+(以作者身份写一条置顶评论,补充视频里没讲清楚的关键信息,引导互动)
+
+## 6. 发布策略建议
+(建议最佳发布时间段,以及适合搭配的音乐风格或合集)
+
+## 7. 增长 Playbook
+- **核心价值定位:** [实用价值/情绪价值]
+- **初始流量池策略:** [具体建议]
+- **数据驱动优化:**
+  - 前3秒留存够高?
+  - 完播率高于同类作品?
+  - 评论和转发能带来二次推荐?
+`,
+    sectionRules: {
+      titles: '输出3个抖音作品标题,每个标题≤30字(emoji计2字),格式为"- 标题1:"。换用与原标题不同的句式和切入点',
+      body: '基于用户素材重写作品描述,口语化、节奏快,开头一句话给出钩子,30-300字。正文中禁止出现任何 #话题,禁止使用星号、方括号等格式符号',
+      tags: '输出3-5个抖音话题,格式为"#话题1 #话题2",1-2个大流量话题加与内容强相关的垂直话题,严格去重',
+      imagePrompt: '严格基于正文提炼核心卖点,输出一句8-12字的视频封面大字文案,关键词前置,只输出文案本身',
+      selfComment: '以作者身份写一条置顶评论,补充视频里没讲清楚的关键信息,引导互动',
+      strategy: '给出发布策略建议,包括最佳发布时间段和适合搭配的音乐风格或合集',
+    },
+  },
+  weibo: {
+    persona: '微博热门博主',
+    requirements: ['导语≤30字', '正文50-2000字', '话题1-3个,格式为 #话题#'],
+    styleRules: `**写作风格:**
+- 口语化,观点鲜明,第一句话就亮出重点
+- 信息密度高,少铺垫,长文适当分段
+- 加入真实细节和情绪
+- 避免:首先、其次、总之等模板词
+- 避免这些高频开头套话: 今天来分享、给大家安利、宝子们`,
+    outputFormat: `## 1. 爆款标题创作(3个)
+(3个可作为微博开头第一句的导语,每个≤30字,emoji计2字)
+- 标题1:
+- 标题2:
+- 标题3:
+
+## 2. 正文内容
+(微博正文,基于用户素材,50-2000字,可以在句中自然嵌入1-2个话题,话题必须写成 #话题# 的双井号格式)
+
+## 3. 关键词标签(1-3个)
+(微博话题,格式为"#话题1# #话题2#",优先选择与内容强相关、讨论度高的话题,严格去重)
+
+## 4. AI绘画提示词
+(配图首图上的大字文案,10-15字,关键词前置,只输出文案本身)
+
+## 5. 首评关键词引导
+(以博主身份写一条评论,补充正文未说明的关键信息,引导转发和讨论)
+
+## 6. 发布策略建议
+(建议最佳发布时间段,以及是否适合带超话或@相关账号)
+
+## 7. 增长 Playbook
+- **核心价值定位:** [实用价值/情绪价值]
+- **初始流量池策略:** [具体建议]
+- **数据驱动优化:**
+  - 转评赞比例健康?
+  - 话题页能否获得曝光?
+  - 转发是否带来新粉丝?
+`,
+    sectionRules: {
+      titles: '输出3个可作为微博开头第一句的导语,每个≤30字(emoji计2字),格式为"- 标题1:"。换用与原导语不同的句式和切入点',
+      body: '基于用户素材重写微博正文,观点鲜明、信息密度高,50-2000字。话题必须写成 #话题# 的双井号格式,禁止使用星号、方括号等格式符号',
+      tags: '输出1-3个微博话题,格式为"#话题1# #话题2#",只保留与内容强相关、讨论度高的话题,严格去重',
+      imagePrompt: '严格基于正文提炼核心卖点,输出一句10-15字的配图大字文案,关键词前置,只输出文案本身',
+      selfComment: '以博主身份写一条评论,补充正文未说明的关键信息,引导转发和讨论',
+      strategy: '给出发布策略建议,包括最佳发布时间段,以及是否适合带超话或@相关账号',
+    },
+  },
+  wechat: {
+    persona: '公众号资深作者',
+    requirements: ['标题≤64字', '正文1000-4000字,至少3个小标题', '文章标签3-5个'],
+    styleRules: `**写作风格:**
+- 书面与口语结合,逻辑清晰,像和读者面对面聊天
+- 段落短,每段不超过4行,适合手机阅读
+- 多用具体案例和细节,少讲空泛的道理
+- 少用emoji
+- 避免:首先、其次、总之等模板词
+- 避免这些高频开头套话: 今天来分享、给大家安利、姐妹们听我说、宝子们`,
+    outputFormat: `## 1. 爆款标题创作(3个)
+(公众号文章标题,每个标题≤64字,emoji计2字,信息明确、有悬念,避免标题党)
+- 标题1:
+- 标题2:
+- 标题3:
+
+## 2. 正文内容
+(公众号长文,基于用户素材,1000-4000字。结构:开头引入,主体分成至少3个小节,每个小节前单独一行写小标题,小标题格式为"一、小标题内容",结尾总结观点。**重要:正文中禁止出现任何 #标签,小标题不要用 # 号**)
+
+## 3. 关键词标签(3-5个)
+(公众号文章标签,格式为"#标签1 #标签2",选择能概括文章主题、便于归入合集的词,严格去重)
+
+## 4. AI绘画提示词
+(文章封面图上的标题文案,10-20字,只输出文案本身)
+
+## 5. 首评关键词引导
+(文末引导语,一两句话引导读者点赞、在看或在留言区分享经历)
+
+## 6. 发布策略建议
+(建议最佳推送时间段,以及适合作为头条还是次条推送)
+
+## 7. 增长 Playbook
+- **核心价值定位:** [实用价值/情绪价值]
+- **初始流量池策略:** [具体建议]
+- **数据驱动优化:**
+  - 打开率高于账号平均?
+  - 完读率高于账号平均?
+  - 分享和在看能带来朋友圈曝光?
+`,
+    sectionRules: {
+      titles: '输出3个公众号文章标题,每个标题≤64字(emoji计2字),格式为"- 标题1:"。换用与原标题不同的句式和切入点,避免标题党',
+      body: '基于用户素材重写公众号长文,1000-4000字,主体分成至少3个小节,每个小节前单独一行写"一、小标题内容"形式的小标题。正文中禁止出现任何 #标签,禁止使用星号、方括号等格式符号',
+      tags: '输出3-5个公众号文章标签,格式为"#标签1 #标签2",选择能概括文章主题、便于归入合集的词,严格去重',
+      imagePrompt: '严格基于正文提炼核心观点,输出一句10-20字的封面图标题文案,只输出文案本身',
+      selfComment: '写一两句文末引导语,引导读者点赞、在看或在留言区分享经历',
+      strategy: '给出发布策略建议,包括最佳推送时间段,以及适合作为头条还是次条推送',
+    },
+  },
+};
+
+/**
+ * 生成文案创作提示词，按平台使用不同的人设、规则和输出格式（默认小红书）
+ */
+export const getGenerationPrompt = (
+  hotPostRules: string,
+  userInfo: string,
+  keyword: string,
+  styleConfig: GenerationStyleConfig,
+  brandVoice?: BrandVoiceProfile | null,
+  series?: SeriesBriefContext | null,
+  recentOutputs?: RecentOutputs | null,
+  platform: PlatformId = DEFAULT_PLATFORM
+): string => {
+  const platformPrompt = PLATFORM_PROMPTS[platform];
+  const requirements = ['内容必须基于用户素材,不要编造', '语言自然口语化,避免AI味', ...platformPrompt.requirements]
+    .map((item, index) => `${index + 1}. ${item}`)
+    .join('\n');
+
+  return `你是${platformPrompt.persona},基于用户素材创作一篇高质量${PLATFORM_PROFILES[platform].contentName}。
+
+${buildStyleConfigText(styleConfig)}${buildBrandVoiceText(brandVoice)}${buildSeriesBriefText(series)}${buildRecentOutputsText(recentOutputs)}
+
+**爆款规律(内化后使用,不要输出):**
+${hotPostRules}
+
+**用户素材:**
+${userInfo}
+
+**关键词:** ${keyword}
+
+**核心要求:**
+${requirements}
+
+${platformPrompt.styleRules}
+
+${FORMAT_RULES}
+
+**直接输出以下格式,不要任何前导文字:**
+
+${platformPrompt.outputFormat}`;
+};
+
+/**
+ * 生成内容系列规划提示词
+ * 结合爆款分析为同一关键词规划多篇互不重复的笔记简报，输出结构对应 SERIES_PLAN_SCHEMA
+ */
+export const getSeriesPlanPrompt = (
+  keyword: string,
+  userInfo: string,
+  count: number,
+  variants: GenerationVariant[],
+  analysis: HotPostAnalysis | null
+): string => {
+  const variantText = variants.map(v => `- ${v.id}: ${v.label}(${v.angle})`).join('\n');
+  const analysisText = analysis
+    ? `**爆款分析(规划时参考):**
+- 标题公式: ${analysis.titleFormulas.suggestedFormulas.join('、')}
+- 开头方式: ${analysis.contentStructure.openingHooks.join('、')}
+- 内容模板: ${analysis.contentStructure.storyTemplates.join('、')}
+- 情感基调: ${analysis.contentStructure.emotionalTone}
+- 分享动机: ${analysis.engagementPatterns.shareReasons.join('、')}`
+    : '**爆款分析:** 暂无参考数据,请基于你对小红书爆款规律的理解规划';
+
+  return `你是小红书内容策划,要为同一个主题规划一组连续发布的笔记,每篇都基于同一份用户素材,但切入角度互不重复。
+
+**关键词:** ${keyword}
+
+**用户素材:**
+${userInfo}
+
+${analysisText}
+
+**可选写作变体(variantId 只能从这里选):**
+${variantText}
+
+**规划要求:**
+- 规划 ${count} 篇笔记
+- 每篇的角度、标题方向互不重复,读者连续看完不会觉得是同一篇换了说法
+- keyFacts 必须来自用户素材,不要编造;各篇的重点素材尽量错开
+- 每篇选一个最适合该角度的写作变体,尽量不要重复使用同一个变体
+
+**输出要求:**
+严格按JSON格式输出,不要任何额外文字。
+
+{
+  "briefs": [
+    {
+      "angle": "本篇切入角度",
+      "variantId": "写作变体id",
+      "titleDirection": "标题方向",
+      "keyFacts": ["本篇重点使用的素材信息"]
+    }
+  ]
+}`;
+};
+
+/**
+ * 生成标题实验室提示词：一次批量生成候选标题，并标注每个标题所用的爆款标题公式
+ * 输出结构对应 getTitleLabSchema
+ */
+export const getTitleLabPrompt = (
+  keyword: string,
+  userInfo: string,
+  count: number,
+  analysis: HotPostAnalysis | null
+): string => {
+  const formulas = analysis?.titleFormulas.suggestedFormulas || [];
+  const formulaText = formulas.length > 0
+    ? `**爆款标题公式(formula 填所用公式的序号,没有套用公式填 0):**
+${formulas.map((f, i) => `${i + 1}. ${f}`).join('\n')}
+${analysis && analysis.titleFormulas.commonKeywords.length > 0 ? `
+**高频关键词(自然用上即可,不要硬塞):** ${analysis.titleFormulas.commonKeywords.join('、')}` : ''}`
+    : '**爆款标题公式:** 暂无参考数据,按你对小红书爆款标题的理解创作,formula 填 0';
+
+  return `你是小红书爆款标题写手,基于用户素材为一篇笔记批量创作候选标题。
+
+**关键词:** ${keyword}
+
+**用户素材:**
+${userInfo}
+
+${formulaText}
+
+**创作要求:**
+- 创作 ${count} 个标题,句式、切入点互不重复
+- 每个标题≤20字(emoji计2字)
+- 标题内容必须基于用户素材,不要编造
+- 避免绝对化词语:最、第一、唯一、100%、保证等
+- 不要使用 Markdown、星号、方括号等格式符号
+
+**输出要求:**
+严格按JSON格式输出,不要任何额外文字。
+
+{
+  "titles": [
+    { "title": "标题", "formula": "1" }
+  ]
+}`;
+};
+
+/**
+ * 生成单个分段的重新创作提示词
+ * 把当前整篇笔记作为上下文，只重写指定分段，保证与其余部分一致
+ */
+export const getSectionRegenerationPrompt = (
+  section: RegenerableSection,
+  currentNote: string,
+  userInfo: string,
+  keyword: string,
+  brandVoice?: BrandVoiceProfile | null,
+  platform: PlatformId = DEFAULT_PLATFORM
+): string => {
+  const heading = SECTION_HEADINGS[section];
+  const sectionName = heading.replace(/^##\s*\d+\.\s*/, '');
+  const { contentName } = PLATFORM_PROFILES[platform];
+
+  return `你是${PLATFORM_PROMPTS[platform].persona},正在修改一篇已经写好的${contentName}。只重新创作其中的「${sectionName}」部分,其余部分保持不变。
+
+**用户素材:**
+${userInfo}
+
+**关键词:** ${keyword}
+
+**当前${contentName}(位于两条分隔线之间):**
+-----
+${currentNote.replace(/```/g, '´´´')}
+-----
+
+**重写要求:**
+- ${PLATFORM_PROMPTS[platform].sectionRules[section]}
+- 内容必须基于用户素材,不要编造
+- 人设、语气和事实与${contentName}其他部分保持一致,但不要照抄原来的「${sectionName}」
+- 语言自然口语化,避免AI味,避免绝对化词语:最、第一、唯一、100%、保证等${buildBrandVoiceText(brandVoice)}
+
+**直接输出以下格式,不要任何前导文字,也不要输出其他部分:**
+
+${heading}
+(重新创作的内容)`;
+};
+
+/**
+ * 生成格式修复提示词
+ * 列出格式校验发现的问题，只让模型重写存在问题的分段，其余分段不输出
+ */
+export const getFormatRepairPrompt = (
+  currentNote: string,
+  violations: FormatViolation[],
+  sections: RegenerableSection[],
+  userInfo: string,
+  keyword: string,
+  platform: PlatformId = DEFAULT_PLATFORM
+): string => {
+  const { label, contentName } = PLATFORM_PROFILES[platform];
+  const getSectionName = (section: RegenerableSection) => SECTION_HEADINGS[section].replace(/^##\s*\d+\.\s*/, '');
+  const problems = violations.map(violation => `- 「${getSectionName(violation.section)}」${violation.message}`).join('\n');
+  const rules = sections.map(section => `- 「${getSectionName(section)}」${PLATFORM_PROMPTS[platform].sectionRules[section]}`).join('\n');
+  const output = sections.map(section => `${SECTION_HEADINGS[section]}\n(修复后的内容)`).join('\n\n');
+
+  return `你是${label}资深编辑,正在检查一篇已经写好的${contentName}。这篇${contentName}有以下格式问题,请只修复这些问题。
+
+**用户素材:**
+${userInfo}
+
+**关键词:** ${keyword}
+
+**当前${contentName}(位于两条分隔线之间):**
+-----
+${currentNote.replace(/```/g, '´´´')}
+-----
+
+**格式问题:**
+${problems}
+
+**修复要求:**
+${rules}
+- 只改动有问题的地方,保留原有的事实、人设和语气,不要编造素材中没有的内容
+- 不要使用 Markdown、星号、方括号等格式符号
+
+**直接输出以下格式,不要任何前导文字,也不要输出其他部分:**
+
+${output}`;
+};
+
+/**
+ * 生成改写（去AI味）提示词
+ * 保留原文全部事实，按写作配置和与创作相同的风格规则重写表达
+ */
+export const getRewritePrompt = (originalNote: string, styleConfig: GenerationStyleConfig): string => {
+  return `你是小红书资深编辑,负责把一篇读起来像机器写的笔记改写成真人口吻。
+
+${buildStyleConfigText(styleConfig)}
+
+**原文(位于两条分隔线之间):**
+-----
+${originalNote.replace(/```/g, '´´´')}
+-----
+
+**事实保留(最重要):**
+- 原文中的每一个事实都必须保留:产品名、品牌、数字、价格、时间、地点、人物、使用感受和结论
+- 不要新增原文没有的事实、数据或经历
+- 原文有多个部分(如标题、正文、标签)时,保留同样的部分和顺序;"## 数字." 形式的分段标题和 #标签 原样保留
+
+${WRITING_STYLE_RULES}
+
+${FORMAT_RULES}
+
+**直接输出改写后的全文,不要任何前导文字或说明。**`;
+};
+
+/**
+ * 生成图片素材识别提示词：只提取图片上能直接看到的事实，不推测、不补充
+ * 输出结构对应 IMAGE_FACTS_SCHEMA
+ */
+export const getImageFactsPrompt = (imageCount: number, keyword?: string): string => {
+  return `你是严谨的产品资料整理员。下面附上了${imageCount}张产品图片(产品照片、包装、标签或说明书),请提取图片上能直接看到的事实信息,作为后续创作的素材。
+${keyword ? `
+**主题关键词(仅供理解图片内容,不要据此补充信息):** ${keyword}
+` : ''}
+**提取要求(最重要):**
+- 只提取图片上清楚可见的文字和信息,看不清或看不到的内容一律留空,不要推测、不要补充常识
+- 产品名称、品牌、成分、数字、单位按图上原样抄写,不要翻译或改写
+- 多张图片是同一产品的不同角度时合并信息,去掉重复项
+- 不要写评价、使用感受或营销语
+
+**字段说明:**
+- productName: 产品名称,没有则为空字符串
+- brand: 品牌,没有则为空字符串
+- ingredients: 成分/配料表,每项一个元素
+- specs: 规格参数,如净含量、尺寸、型号、功率、颜色,每项一个元素
+- otherFacts: 其他可见信息,如功效宣称、适用人群、产地、保质期、认证标志,每项一个元素
+
+**输出要求:**
+严格按JSON格式输出,不要任何额外文字。
+
+{
+  "productName": "",
+  "brand": "",
+  "ingredients": [],
+  "specs": [],
+  "otherFacts": []
+}`;
 };
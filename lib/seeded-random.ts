@@ -0,0 +1,57 @@
+/**
+ * 可复现的伪随机数
+ * 同一个种子产生同样的随机序列，用于复现某次生成的写作配置和温度，便于排查问题
+ */
+
+/**
+ * 随机数来源，返回 [0, 1) 之间的数，与 Math.random 签名一致
+ */
+export type RandomSource = () => number;
+
+export type GenerationSeed = string | number;
+
+// 种子字符串的最大长度
+const MAX_SEED_LENGTH = 64;
+
+/**
+ * 把种子哈希为 32 位整数（FNV-1a）
+ */
+function hashSeed(seed: GenerationSeed): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 创建以种子驱动的随机数来源（mulberry32）
+ */
+export function createSeededRandom(seed: GenerationSeed): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 生成一个新种子（未指定种子时使用，随响应返回以便复现）
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
+
+/**
+ * 校验请求中的种子：整数或不超过 64 个字符的非空字符串
+ */
+export function isValidSeed(value: unknown): value is GenerationSeed {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value);
+  }
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_SEED_LENGTH;
+}
@@ -0,0 +1,258 @@
+/**
+ * 内容系列规划模块
+ * 为同一关键词一次规划多篇笔记的简报（角度、写作变体、标题方向、重点素材），
+ * 规划落盘保存，之后逐篇生成时带上其他篇的角度和已生成的标题，避免系列内容互相重复
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SchemaNode } from './analysis-schema';
+import { generateTraceId } from './utils';
+import type { VariantPool } from './generation-variants';
+import type { RandomSource } from './seeded-random';
+
+function resolveSeriesDir(): string {
+  if (process.env.SERIES_DIR) {
+    return process.env.SERIES_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'series');
+  }
+
+  return path.join(process.cwd(), 'data', 'series');
+}
+
+// 系列规划配置
+export const SERIES_CONFIG = {
+  // 规划存储目录，所有系列规划保存在同一个 JSON 文件中
+  SERIES_DIR: resolveSeriesDir(),
+  FILE_NAME: 'series.json',
+  // 最多保留的规划数量，超出时删除最早创建的规划
+  MAX_PLANS: 200,
+  // 单个系列的篇数范围
+  MIN_BRIEFS: 2,
+  MAX_BRIEFS: 10,
+} as const;
+
+/**
+ * 单篇笔记简报
+ */
+export interface SeriesBrief {
+  index: number; // 在系列中的序号，从 0 开始
+  angle: string; // 本篇切入角度
+  variantId: string; // 使用的写作变体
+  titleDirection: string; // 标题方向
+  keyFacts: string[]; // 本篇重点使用的素材信息
+  status: 'planned' | 'generated';
+  generatedTitles: string[]; // 已生成的标题分段（多候选时每个候选一条）
+  generatedAt: number | null;
+}
+
+/**
+ * 系列规划
+ */
+export interface SeriesPlan {
+  id: string;
+  keyword: string;
+  userInfo: string;
+  briefs: SeriesBrief[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 生成系列中某一篇时注入提示词的上下文
+ */
+export interface SeriesBriefContext {
+  keyword: string;
+  total: number;
+  brief: SeriesBrief;
+  otherBriefs: SeriesBrief[];
+}
+
+/**
+ * 存储操作结果，失败时 reason 对应 HTTP 状态：not_found 404
+ */
+export type SeriesStoreResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: 'not_found'; errors: string[] };
+
+/**
+ * 模型输出的系列规划
+ */
+export interface SeriesPlanOutput {
+  briefs: Array<Pick<SeriesBrief, 'angle' | 'variantId' | 'titleDirection' | 'keyFacts'>>;
+}
+
+const requiredString: SchemaNode = { type: 'string', required: true, nonEmpty: true };
+
+/**
+ * 系列规划输出 schema，对应 getSeriesPlanPrompt 中的 JSON 结构
+ */
+export const SERIES_PLAN_SCHEMA: SchemaNode = {
+  type: 'object',
+  required: true,
+  fields: {
+    briefs: {
+      type: 'array',
+      required: true,
+      minItems: 1,
+      items: {
+        type: 'object',
+        fields: {
+          angle: requiredString,
+          variantId: requiredString,
+          titleDirection: requiredString,
+          keyFacts: { type: 'array', items: requiredString, required: true, minItems: 1 },
+        },
+      },
+    },
+  },
+};
+
+function getStoreFilePath(): string {
+  return path.join(SERIES_CONFIG.SERIES_DIR, SERIES_CONFIG.FILE_NAME);
+}
+
+async function readPlans(): Promise<SeriesPlan[]> {
+  try {
+    const content = await fs.readFile(getStoreFilePath(), 'utf-8');
+    const data = JSON.parse(content);
+    return Array.isArray(data.plans) ? data.plans : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('读取系列规划失败:', error);
+    }
+    return [];
+  }
+}
+
+async function writePlans(plans: SeriesPlan[]): Promise<void> {
+  await fs.mkdir(SERIES_CONFIG.SERIES_DIR, { recursive: true });
+  await fs.writeFile(getStoreFilePath(), JSON.stringify({ plans }, null, 2), 'utf-8');
+}
+
+// 串行执行写操作，避免并发请求读到旧数据后互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeChain.then(operation, operation);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * 整理模型输出的简报：截取到 count 篇，写作变体不存在或与前面重复时换成未使用的变体
+ */
+export function normalizeSeriesBriefs(
+  output: SeriesPlanOutput,
+  count: number,
+  pool: VariantPool,
+  random: RandomSource = Math.random
+): SeriesBrief[] {
+  const briefs = output.briefs.slice(0, count);
+  const used = new Set<string>();
+  const needsVariant = briefs.map(brief => {
+    const valid = !!pool.getById(brief.variantId) && !used.has(brief.variantId);
+    if (valid) used.add(brief.variantId);
+    return !valid;
+  });
+
+  // 按启用状态和权重排出备选顺序，启用的变体都用过后才允许重复
+  const spare = pool.pickDistinct(pool.getEntries().length, random).filter(variant => !used.has(variant.id));
+
+  return briefs.map((brief, index) => ({
+    index,
+    angle: brief.angle.trim(),
+    variantId: needsVariant[index] ? (spare.shift() ?? pool.pickRandom(random)).id : brief.variantId,
+    titleDirection: brief.titleDirection.trim(),
+    keyFacts: brief.keyFacts.map(fact => fact.trim()),
+    status: 'planned',
+    generatedTitles: [],
+    generatedAt: null,
+  }));
+}
+
+/**
+ * 获取所有系列规划，按创建时间倒序
+ */
+export async function listSeriesPlans(): Promise<SeriesPlan[]> {
+  const plans = await readPlans();
+  return plans.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * 按 id 获取系列规划，不存在时返回 null
+ */
+export async function getSeriesPlan(id: string): Promise<SeriesPlan | null> {
+  const plans = await readPlans();
+  return plans.find(plan => plan.id === id) || null;
+}
+
+/**
+ * 保存新的系列规划，超出数量上限时删除最早创建的规划
+ */
+export function createSeriesPlan(keyword: string, userInfo: string, briefs: SeriesBrief[]): Promise<SeriesPlan> {
+  return withStoreLock(async () => {
+    const now = Date.now();
+    const plan: SeriesPlan = { id: generateTraceId(12), keyword, userInfo, briefs, createdAt: now, updatedAt: now };
+
+    const plans = await readPlans();
+    plans.push(plan);
+    plans.sort((a, b) => b.createdAt - a.createdAt);
+    await writePlans(plans.slice(0, SERIES_CONFIG.MAX_PLANS));
+    return plan;
+  });
+}
+
+/**
+ * 记录某一篇已生成及其标题，之后生成其他篇时避开这些标题
+ */
+export function markSeriesBriefGenerated(id: string, index: number, titles: string[]): Promise<SeriesStoreResult<SeriesPlan>> {
+  return withStoreLock(async () => {
+    const plans = await readPlans();
+    const plan = plans.find(item => item.id === id);
+    if (!plan || !plan.briefs[index]) {
+      return { ok: false, reason: 'not_found', errors: [`系列规划或简报不存在: ${id} #${index}`] };
+    }
+
+    const now = Date.now();
+    plan.briefs[index] = { ...plan.briefs[index], status: 'generated', generatedTitles: titles, generatedAt: now };
+    plan.updatedAt = now;
+    await writePlans(plans);
+    return { ok: true, data: plan };
+  });
+}
+
+/**
+ * 删除系列规划
+ */
+export function deleteSeriesPlan(id: string): Promise<SeriesStoreResult<{ id: string }>> {
+  return withStoreLock(async () => {
+    const plans = await readPlans();
+    const remaining = plans.filter(plan => plan.id !== id);
+    if (remaining.length === plans.length) {
+      return { ok: false, reason: 'not_found', errors: [`系列规划不存在: ${id}`] };
+    }
+    await writePlans(remaining);
+    return { ok: true, data: { id } };
+  });
+}
+
+/**
+ * 取生成某一篇时的上下文，序号越界时返回 null
+ */
+export function getSeriesBriefContext(plan: SeriesPlan, index: number): SeriesBriefContext | null {
+  const brief = plan.briefs[index];
+  if (!brief) {
+    return null;
+  }
+  return {
+    keyword: plan.keyword,
+    total: plan.briefs.length,
+    brief,
+    otherBriefs: plan.briefs.filter(item => item.index !== index),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * 文本差异对比
+ * 用于展示改写前后的变化：中文按单字、英文和数字按整词切分，再做最长公共子序列对比
+ */
+
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+/**
+ * 差异片段，相邻的同类型片段会合并
+ */
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+}
+
+export interface TextDiff {
+  segments: DiffSegment[];
+  stats: {
+    insertedChars: number;
+    deletedChars: number;
+    unchangedChars: number;
+    changeRatio: number; // 变化字数占原文字数的比例，0-1
+  };
+}
+
+// 逐字对比的规模上限（原文与改写后词元数的乘积），超出时退化为按句对比，避免占用过多内存
+const MAX_TOKEN_PRODUCT = 4000000;
+
+/**
+ * 把文本切分为对比单元：英文单词和数字整体作为一个单元，其余字符逐个切分
+ */
+function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9_.%]+|\s+|[\s\S]/g) || [];
+}
+
+/**
+ * 按句切分（句末标点和换行作为分隔，保留在句子末尾）
+ */
+function tokenizeSentences(text: string): string[] {
+  return text.match(/[^。！？!?\n]*[。！？!?\n]+|[^。！？!?\n]+$/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffType, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  const rows = before.length;
+  const cols = after.length;
+  const width = cols + 1;
+
+  // lcs[i][j] 为 before[i..] 与 after[j..] 的最长公共子序列长度
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = before[i] === after[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      pushSegment(segments, 'equal', before[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, 'delete', before[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'insert', after[j]);
+      j++;
+    }
+  }
+  for (; i < rows; i++) pushSegment(segments, 'delete', before[i]);
+  for (; j < cols; j++) pushSegment(segments, 'insert', after[j]);
+
+  return segments;
+}
+
+/**
+ * 对比两段文本
+ */
+export function diffText(before: string, after: string): TextDiff {
+  let beforeTokens = tokenize(before);
+  let afterTokens = tokenize(after);
+  if (beforeTokens.length * afterTokens.length > MAX_TOKEN_PRODUCT) {
+    beforeTokens = tokenizeSentences(before);
+    afterTokens = tokenizeSentences(after);
+  }
+
+  const segments = diffTokens(beforeTokens, afterTokens);
+  const count = (type: DiffType) => segments
+    .filter(segment => segment.type === type)
+    .reduce((sum, segment) => sum + segment.text.length, 0);
+
+  const insertedChars = count('insert');
+  const deletedChars = count('delete');
+  const unchangedChars = count('equal');
+
+  return {
+    segments,
+    stats: {
+      insertedChars,
+      deletedChars,
+      unchangedChars,
+      changeRatio: before.length > 0 ? Math.min(1, Math.max(insertedChars, deletedChars) / before.length) : 1,
+    },
+  };
+}
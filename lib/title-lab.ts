@@ -0,0 +1,213 @@
+/**
+ * 标题实验室
+ * 批量生成的候选标题按字数规则、爆款标题公式、高频关键词和敏感词打分排序，并给出打分理由
+ */
+
+import { SchemaNode } from './analysis-schema';
+import { cleanTitle, countTitleLength } from './format-validator';
+import { PLATFORM_PROFILES } from './platforms';
+import { detectSensitiveWords } from './sensitive-words';
+import type { HotPostAnalysis } from './types';
+
+// 标题实验室配置
+export const TITLE_LAB_CONFIG = {
+  // 单次生成的候选标题数量范围
+  MIN_COUNT: 20,
+  MAX_COUNT: 50,
+  DEFAULT_COUNT: 30,
+  // 模型返回的标题少于请求数量的该比例时，按校验失败让模型补足
+  MIN_OUTPUT_RATIO: 0.8,
+} as const;
+
+/**
+ * 模型输出的候选标题，formula 为所用标题公式的序号（从 1 开始），未使用公式时为 0
+ */
+export interface TitleLabOutput {
+  titles: Array<{ title: string; formula: string }>;
+}
+
+/**
+ * 打分后的标题
+ */
+export interface ScoredTitle {
+  title: string;
+  length: number; // 按 emoji 计 2 字统计的字数
+  withinLimit: boolean;
+  score: number; // 0-100
+  formula: string | null; // 核对通过的标题公式
+  declaredFormula: string | null; // 模型自报套用的标题公式，未必核对通过
+  matchedKeywords: string[];
+  sensitiveWords: string[];
+  reasons: string[];
+}
+
+/**
+ * 标题打分依据
+ */
+export interface TitleScoringContext {
+  keyword: string;
+  formulas: string[];
+  commonKeywords: string[];
+}
+
+const requiredString: SchemaNode = { type: 'string', required: true, nonEmpty: true };
+
+/**
+ * 候选标题输出 schema，对应 getTitleLabPrompt 中的 JSON 结构
+ * 标题数量下限随请求数量变化，数量不足时走修复重问
+ */
+export function getTitleLabSchema(count: number): SchemaNode {
+  return {
+    type: 'object',
+    required: true,
+    fields: {
+      titles: {
+        type: 'array',
+        required: true,
+        minItems: Math.max(1, Math.ceil(count * TITLE_LAB_CONFIG.MIN_OUTPUT_RATIO)),
+        items: {
+          type: 'object',
+          fields: {
+            title: requiredString,
+            formula: { type: 'string' },
+          },
+        },
+      },
+    },
+  };
+}
+
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u');
+
+// 公式分：能从字面核对的按公式计分，只有模型自报、无法核对的只给少量分
+const FORMULA_VERIFIED_BONUS = 20;
+const FORMULA_DECLARED_BONUS = 5;
+
+// 标题公式中可以从字面核对的要素：公式提到该要素而标题里没有时，不计公式分
+const FORMULA_FEATURES: Array<{ name: string; mention: RegExp; present: (title: string) => boolean }> = [
+  { name: '数字', mention: /数字|数据|数量/, present: title => /\d|[一二三四五六七八九十两百千万][个款种步招天周月年次件条斤块元]/.test(title) },
+  { name: '疑问', mention: /疑问|提问|问句|反问/, present: title => /[?？]|吗|怎么|为什么|如何|哪/.test(title) },
+  { name: '感叹', mention: /感叹/, present: title => /[!！]/.test(title) },
+  { name: 'emoji', mention: /emoji|表情/i, present: title => EMOJI_PATTERN.test(title) },
+  { name: '对比', mention: /对比|反差|前后/, present: title => /vs|对比|还是|不如|前后|之前|以后/i.test(title) },
+];
+
+/**
+ * 标题公式与标题共有的模板词（公式中连续两个汉字的片段），用于核对没有字面要素的公式
+ */
+function getTemplateOverlap(formula: string, title: string): string[] {
+  const grams = new Set<string>();
+  (formula.match(/[\u4e00-\u9fa5]{2,}/g) || []).forEach(segment => {
+    for (let i = 0; i < segment.length - 1; i++) {
+      grams.add(segment.slice(i, i + 2));
+    }
+  });
+  return Array.from(grams).filter(gram => title.includes(gram));
+}
+
+/**
+ * 给单个标题打分，返回分数和每一项加减分的理由
+ */
+export function scoreTitle(title: string, declaredFormula: string | null, context: TitleScoringContext): ScoredTitle {
+  const reasons: string[] = [];
+  let score = 50;
+
+  const length = countTitleLength(title);
+  // 标题实验室只面向小红书
+  const { maxTitleLength } = PLATFORM_PROFILES.xiaohongshu.format;
+  const withinLimit = length <= maxTitleLength;
+  if (withinLimit) {
+    score += 10;
+    reasons.push(`${length}字，符合≤${maxTitleLength}字`);
+  } else {
+    score -= 30;
+    reasons.push(`${length}字，超过${maxTitleLength}字（emoji计2字）`);
+  }
+
+  let formula: string | null = null;
+  if (context.formulas.length > 0) {
+    if (declaredFormula) {
+      const checked = FORMULA_FEATURES.filter(feature => feature.mention.test(declaredFormula));
+      const missing = checked.filter(feature => !feature.present(title)).map(feature => feature.name);
+      const overlap = getTemplateOverlap(declaredFormula, title);
+      if (missing.length > 0) {
+        reasons.push(`套用「${declaredFormula}」但缺少${missing.join('、')}`);
+      } else if (checked.length > 0 || overlap.length > 0) {
+        formula = declaredFormula;
+        score += FORMULA_VERIFIED_BONUS;
+        reasons.push(`符合标题公式「${declaredFormula}」`);
+      } else {
+        // 公式没有可从字面核对的要素，也没有与标题重合的模板词，只能采信模型自报
+        score += FORMULA_DECLARED_BONUS;
+        reasons.push(`自报套用「${declaredFormula}」，无法从字面核对`);
+      }
+    } else {
+      reasons.push('未使用爆款标题公式');
+    }
+  }
+
+  if (title.toLowerCase().includes(context.keyword.toLowerCase())) {
+    score += 5;
+    reasons.push(`包含关键词「${context.keyword}」`);
+  }
+
+  const matchedKeywords = context.commonKeywords.filter(word => word && title.includes(word));
+  if (matchedKeywords.length > 0) {
+    score += Math.min(matchedKeywords.length * 5, 15);
+    reasons.push(`命中高频词：${matchedKeywords.join('、')}`);
+  }
+
+  const sensitiveWords = detectSensitiveWords(title).detectedWords;
+  if (sensitiveWords.length > 0) {
+    score -= 40;
+    reasons.push(`含敏感词：${sensitiveWords.join('、')}`);
+  }
+
+  return {
+    title,
+    length,
+    withinLimit,
+    score: Math.max(0, Math.min(100, score)),
+    formula,
+    declaredFormula,
+    matchedKeywords,
+    sensitiveWords,
+    reasons,
+  };
+}
+
+/**
+ * 取标题打分依据，没有爆款分析时只按字数、关键词和敏感词打分
+ */
+export function getTitleScoringContext(keyword: string, analysis: HotPostAnalysis | null): TitleScoringContext {
+  return {
+    keyword,
+    formulas: analysis?.titleFormulas.suggestedFormulas || [],
+    commonKeywords: analysis?.titleFormulas.commonKeywords || [],
+  };
+}
+
+/**
+ * 整理、去重并打分排序：分数高的在前，同分时字数合规、较短的在前
+ */
+export function rankTitles(output: TitleLabOutput, context: TitleScoringContext): ScoredTitle[] {
+  const seen = new Set<string>();
+  const scored: ScoredTitle[] = [];
+
+  for (const item of output.titles) {
+    const title = cleanTitle(item.title);
+    const key = title.replace(/\s+/g, '');
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const formulaIndex = parseInt(item.formula, 10);
+    const declaredFormula = formulaIndex > 0 ? context.formulas[formulaIndex - 1] || null : null;
+    scored.push(scoreTitle(title, declaredFormula, context));
+  }
+
+  return scored.sort((a, b) =>
+    b.score - a.score
+    || Number(b.withinLimit) - Number(a.withinLimit)
+    || a.length - b.length
+  );
+}
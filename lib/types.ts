@@ -98,6 +98,55 @@ export interface AnalysisResult {
   note_count: number;
 }
 
+/**
+ * 热门笔记爆款分析报告 - 与 getAnalysisPrompt 约定的 JSON 结构一致
+ * 经过 HOT_POST_ANALYSIS_SCHEMA 校验后，可选字段都会补齐为空字符串或空数组
+ */
+export interface HotPostAnalysis {
+  titleFormulas: {
+    analysis: string;
+    suggestedFormulas: string[];
+    commonKeywords: string[];
+    avoidWords: string[];
+  };
+  contentStructure: {
+    openingHooks: string[];
+    storyTemplates: string[];
+    bodyTemplate: string;
+    endingHooks: string[];
+    emotionalTone: string;
+  };
+  tagStrategy: {
+    strategy: string;
+    commonTags: string[];
+    tagCategories: {
+      coreKeywords: string[];
+      longTailKeywords: string[];
+      sceneTags: string[];
+      demographicTags: string[];
+    };
+  };
+  coverStyleAnalysis: {
+    commonStyles: string[];
+    suggestion: string;
+    colorTone: string;
+  };
+  engagingWritingElements: {
+    humorTechniques: string[];
+    storyElements: string[];
+    emotionalHooks: string[];
+  };
+  writingGuidelines: {
+    antiListingRules: string[];
+    lifelikeDetails: string[];
+  };
+  engagementPatterns: {
+    interactionTriggers: string[];
+    commentPatterns: string[];
+    shareReasons: string[];
+  };
+}
+
 /**
  * 生成内容接口 - 更新以匹配实际使用
  */
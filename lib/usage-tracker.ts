@@ -0,0 +1,244 @@
+/**
+ * AI调用用量与成本统计模块
+ * 记录每次 AI 调用的 token 用量、实际应答模型和降级次数，按天落盘并支持聚合查询
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getEnvVar } from './utils';
+import type { ProviderType, TokenUsage } from './ai-providers';
+import type { AITaskName } from './ai-tasks';
+
+function resolveUsageDir(): string {
+  if (process.env.USAGE_DIR) {
+    return process.env.USAGE_DIR;
+  }
+
+  const isServerless = process.env.VERCEL === '1' || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (isServerless) {
+    return path.join('/tmp', 'usage');
+  }
+
+  return path.join(process.cwd(), 'data', 'usage');
+}
+
+// 用量统计配置
+export const USAGE_CONFIG = {
+  // 用量记录目录，每天一个 JSONL 文件
+  USAGE_DIR: resolveUsageDir(),
+  // 聚合查询默认统计的天数
+  DEFAULT_QUERY_DAYS: 7,
+  // 聚合查询最多统计的天数
+  MAX_QUERY_DAYS: 90,
+} as const;
+
+/**
+ * 检查是否启用用量统计，默认启用
+ */
+function isUsageTrackingEnabled(): boolean {
+  return process.env.ENABLE_USAGE_TRACKING !== 'false';
+}
+
+/**
+ * 模型单价（美元 / 百万 token）
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 单次 AI 调用的用量记录
+ */
+export interface UsageRecord {
+  timestamp: number;
+  route: string; // 发起调用的 API 路由
+  task: AITaskName;
+  model: string; // 实际应答的模型（模型链中的配置项）
+  provider: ProviderType;
+  promptTokens: number; // token 和成本为所有尝试（含失败的重试、修复重问和断流前的部分输出）的累计值
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // 任一尝试的提供方未返回用量、按字符数估算
+  cost: number | null; // 价格表中没有所用模型时为 null
+  fallbackCount: number; // 切换到备用模型的次数
+  attempts: number; // 总尝试次数（含重试）
+  durationMs: number;
+  success: boolean;
+}
+
+/**
+ * 聚合统计结果
+ */
+export interface UsageSummary {
+  requests: number;
+  failedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number; // 无价格信息、未计入成本的请求数
+  fallbacks: number;
+}
+
+/**
+ * 读取价格表
+ * AI_PRICE_TABLE 为 JSON，键为模型配置项或模型名，"*" 作为默认价格
+ * 示例: {"gemini-2.5-flash": {"input": 0.3, "output": 2.5}, "*": {"input": 1, "output": 4}}
+ */
+function getPriceTable(): Record<string, ModelPrice> {
+  const raw = getEnvVar('AI_PRICE_TABLE');
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('⚠️ AI_PRICE_TABLE 不是有效的JSON，忽略成本计算');
+    return {};
+  }
+}
+
+/**
+ * 查找模型单价：优先完整配置项，其次模型名，最后默认价格
+ */
+function findModelPrice(modelName: string, model: string): ModelPrice | null {
+  const priceTable = getPriceTable();
+  const price = priceTable[modelName] || priceTable[model] || priceTable['*'];
+  if (!price || typeof price.input !== 'number' || typeof price.output !== 'number') {
+    return null;
+  }
+  return price;
+}
+
+/**
+ * 按字符数粗略估算 token 数
+ * 中日韩字符约 1 字 1 token，其余字符约 4 字符 1 token
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+/**
+ * 计算单次调用的成本（美元）
+ */
+export function calculateCost(modelName: string, model: string, usage: TokenUsage): number | null {
+  const price = findModelPrice(modelName, model);
+  if (!price) return null;
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+  return Math.round(cost * 1000000) / 1000000;
+}
+
+/**
+ * 生成记录日期（UTC，YYYY-MM-DD）
+ */
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().substring(0, 10);
+}
+
+function getUsageFilePath(day: string): string {
+  return path.join(USAGE_CONFIG.USAGE_DIR, `${day}.jsonl`);
+}
+
+/**
+ * 追加一条用量记录
+ * 统计失败不影响主流程
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  if (!isUsageTrackingEnabled()) {
+    return;
+  }
+
+  try {
+    await fs.mkdir(USAGE_CONFIG.USAGE_DIR, { recursive: true });
+    await fs.appendFile(getUsageFilePath(formatDay(record.timestamp)), JSON.stringify(record) + '\n', 'utf-8');
+  } catch (error) {
+    console.warn('保存用量记录失败:', error);
+  }
+}
+
+/**
+ * 读取指定日期范围内的用量记录
+ */
+export async function getUsageRecords(days: number = USAGE_CONFIG.DEFAULT_QUERY_DAYS): Promise<UsageRecord[]> {
+  const dayCount = Math.min(Math.max(Math.floor(days), 1), USAGE_CONFIG.MAX_QUERY_DAYS);
+  const records: UsageRecord[] = [];
+  const now = Date.now();
+
+  for (let i = dayCount - 1; i >= 0; i--) {
+    const day = formatDay(now - i * 24 * 60 * 60 * 1000);
+    try {
+      const content = await fs.readFile(getUsageFilePath(day), 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          continue; // 跳过损坏的记录
+        }
+      }
+    } catch {
+      continue; // 当天没有记录
+    }
+  }
+
+  return records;
+}
+
+function createEmptySummary(): UsageSummary {
+  return {
+    requests: 0,
+    failedRequests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+    fallbacks: 0,
+  };
+}
+
+function addToSummary(summary: UsageSummary, record: UsageRecord): void {
+  summary.requests++;
+  if (!record.success) summary.failedRequests++;
+  summary.promptTokens += record.promptTokens;
+  summary.completionTokens += record.completionTokens;
+  summary.totalTokens += record.totalTokens;
+  if (record.cost === null) {
+    summary.unpricedRequests++;
+  } else {
+    summary.cost = Math.round((summary.cost + record.cost) * 1000000) / 1000000;
+  }
+  summary.fallbacks += record.fallbackCount;
+}
+
+/**
+ * 聚合用量记录：总计、按路由、按模型、按天
+ */
+export function summarizeUsage(records: UsageRecord[]): {
+  totals: UsageSummary;
+  byRoute: Record<string, UsageSummary>;
+  byModel: Record<string, UsageSummary>;
+  byDay: Record<string, UsageSummary>;
+} {
+  const totals = createEmptySummary();
+  const byRoute: Record<string, UsageSummary> = {};
+  const byModel: Record<string, UsageSummary> = {};
+  const byDay: Record<string, UsageSummary> = {};
+
+  for (const record of records) {
+    const day = formatDay(record.timestamp);
+    byRoute[record.route] = byRoute[record.route] || createEmptySummary();
+    byModel[record.model] = byModel[record.model] || createEmptySummary();
+    byDay[day] = byDay[day] || createEmptySummary();
+
+    addToSummary(totals, record);
+    addToSummary(byRoute[record.route], record);
+    addToSummary(byModel[record.model], record);
+    addToSummary(byDay[day], record);
+  }
+
+  return { totals, byRoute, byModel, byDay };
+}